@@ -1,23 +1,48 @@
 import { Toaster } from '@/components/ui/sonner';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { BrowserRouter, Navigate, Routes, Route } from 'react-router-dom';
+import { WriteConflictDialog } from '@/components/WriteConflictDialog';
+import { WriteQueueToasts } from '@/components/WriteQueueToasts';
+import { AuthProvider } from '@/hooks/useAuth';
+import DataQuality from './pages/DataQuality';
+import Import from './pages/Import';
 import Index from './pages/Index';
+import Kanban from './pages/Kanban';
+import Login from './pages/Login';
 import NotFound from './pages/NotFound';
+import PartDetail from './pages/PartDetail';
+import Settings from './pages/Settings';
+import Suppliers from './pages/Suppliers';
+import Trends from './pages/Trends';
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <WriteQueueToasts />
+        <WriteConflictDialog />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Navigate to="/completed" replace />} />
+            <Route path="/data-quality" element={<DataQuality />} />
+            <Route path="/import" element={<Import />} />
+            <Route path="/kanban" element={<Kanban />} />
+            <Route path="/login" element={<Login />} />
+            <Route path="/parts/:material" element={<PartDetail />} />
+            <Route path="/settings" element={<Settings />} />
+            <Route path="/suppliers" element={<Suppliers />} />
+            <Route path="/trends" element={<Trends />} />
+            {/* Dashboard tabs; Index renders NotFound for unknown tabs */}
+            <Route path="/:tab" element={<Index />} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,130 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { format, isValid, parseISO } from 'date-fns';
+import { Download, FileText, Paperclip, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from '@/components/ui/sonner';
+import { useAttachments } from '@/hooks/useAttachments';
+import {
+  ATTACHMENT_CATEGORIES,
+  attachmentCategoryLabel,
+  formatFileSize,
+  MAX_ATTACHMENT_BYTES,
+} from '@/lib/attachments';
+import { AttachmentCategory } from '@/types/bom';
+
+const formatTimestamp = (value: string) => {
+  const parsed = parseISO(value);
+  return isValid(parsed) ? format(parsed, 'd MMM yyyy, HH:mm') : value;
+};
+
+interface AttachmentPanelProps {
+  componentMaterial: string;
+}
+
+export const AttachmentPanel = ({ componentMaterial }: AttachmentPanelProps) => {
+  const { attachments, loading, error, progress, canUpload, canDelete, upload, remove } =
+    useAttachments(componentMaterial);
+  const [category, setCategory] = useState<AttachmentCategory>('drawing');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+
+    for (const file of files) {
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        toast.error(`${file.name} is too large`, {
+          description: `Attachments are limited to ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`,
+        });
+        continue;
+      }
+      if (await upload(file, category)) {
+        toast.success(`${file.name} attached`);
+      } else {
+        toast.error(`${file.name} was not uploaded`, { description: 'Please try again.' });
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {canUpload && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={category} onValueChange={(value) => setCategory(value as AttachmentCategory)}>
+            <SelectTrigger className="h-9 w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ATTACHMENT_CATEGORIES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input ref={fileInput} type="file" multiple className="hidden" onChange={handleFiles} />
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-2"
+            disabled={progress !== null}
+            onClick={() => fileInput.current?.click()}
+          >
+            <Paperclip className="h-4 w-4" />
+            {progress !== null ? 'Uploading…' : 'Attach files'}
+          </Button>
+          {progress !== null && <Progress value={progress * 100} className="h-2 w-40" />}
+        </div>
+      )}
+
+      {loading && <Skeleton className="h-14 w-full" />}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!loading && !error && attachments.length === 0 && (
+        <p className="text-sm text-slate-500">No files are attached to this part yet.</p>
+      )}
+
+      <ul className="divide-y divide-slate-200">
+        {attachments.map((attachment) => (
+          <li key={attachment.id} className="flex items-center gap-3 py-2">
+            <FileText className="h-5 w-5 shrink-0 text-slate-400" />
+            <div className="min-w-0 flex-1 space-y-0.5">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="truncate text-sm font-medium text-slate-900">{attachment.name}</span>
+                <Badge variant="outline" className="text-xs">
+                  {attachmentCategoryLabel(attachment.category)}
+                </Badge>
+              </div>
+              <p className="text-xs text-slate-500">
+                {formatFileSize(attachment.size)} · {attachment.uploadedBy} · {formatTimestamp(attachment.uploadedAt)}
+              </p>
+            </div>
+            <Button asChild size="icon" variant="ghost" className="h-8 w-8" title="Download">
+              <a href={attachment.url} download={attachment.name} target="_blank" rel="noreferrer">
+                <Download className="h-4 w-4" />
+              </a>
+            </Button>
+            {canDelete(attachment) && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                title="Delete"
+                onClick={async () => {
+                  if (!(await remove(attachment))) {
+                    toast.error(`${attachment.name} was not deleted`, { description: 'Please try again.' });
+                  }
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
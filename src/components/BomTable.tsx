@@ -8,13 +8,16 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
-import { ArrowUpDown, ArrowUp, ArrowDown, ImageIcon } from 'lucide-react';
+import { ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
+import { WriteResult } from '@/hooks/useBomData';
+import { useCurrency } from '@/hooks/useCurrency';
 import { BomItem, SortField, SortDirection, TransferStatus } from '@/types/bom';
 import { StatusButton } from './StatusButton';
+import { ComponentImage } from './ComponentImage';
 
 interface BomTableProps {
   bomItems: BomItem[];
-  onStatusUpdate: (componentMaterial: string, status: TransferStatus) => Promise<boolean>;
+  onStatusUpdate: (componentMaterial: string, status: TransferStatus) => Promise<WriteResult>;
   sortField: SortField;
   sortDirection: SortDirection;
   onSort: (field: SortField) => void;
@@ -27,13 +30,8 @@ export const BomTable = ({
   sortDirection,
   onSort,
 }: BomTableProps) => {
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-    }).format(value);
-  };
+  const { formatCurrency: formatAmount } = useCurrency();
+  const formatCurrency = (value: number) => formatAmount(value, { fractionDigits: 2 });
 
   const formatDate = (dateString: string) => {
     if (!dateString) return '';
@@ -88,29 +86,13 @@ export const BomTable = ({
           {bomItems.map((item) => (
             <TableRow key={item.Component_Material}>
               <TableCell className="w-20">
-                {item.imageUrl ? (
-                  <img
-                    src={item.imageUrl}
-                    alt={item.Component_Material}
-                    className="w-16 h-16 object-contain rounded border bg-gray-50"
-                    onError={(e) => {
-                      const target = e.target as HTMLImageElement;
-                      target.style.display = 'none';
-                      const parent = target.parentElement;
-                      if (parent) {
-                        parent.innerHTML = `
-                          <div class="w-16 h-16 flex items-center justify-center bg-gray-100 rounded border text-gray-400">
-                            <span class="text-xs">Unavailable</span>
-                          </div>
-                        `;
-                      }
-                    }}
-                  />
-                ) : (
-                  <div className="w-16 h-16 flex items-center justify-center bg-gray-100 rounded border text-gray-400">
-                    <span className="text-xs">Unavailable</span>
-                  </div>
-                )}
+                <ComponentImage
+                  componentMaterial={item.Component_Material}
+                  className="w-16 h-16 rounded border bg-gray-50"
+                  imageClassName="object-contain"
+                  placeholder="Unavailable"
+                  editable
+                />
               </TableCell>
               <TableCell className="font-medium">
                 {item.Component_Material}
@@ -119,7 +101,7 @@ export const BomTable = ({
               <TableCell>
                 <span
                   className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                    item.Kanban_Flag.toLowerCase() === 'kanban'
+                    item.Is_Kanban
                       ? 'bg-purple-100 text-purple-800'
                       : 'bg-gray-100 text-gray-800'
                   }`}
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Layers, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/sonner';
+import { DateSelector } from '@/components/DateSelector';
+import { BulkPatch, BulkUpdateResult } from '@/hooks/useBomData';
+import { Supplier, TransferStatus } from '@/types/bom';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  suppliers: Supplier[];
+  onApply: (patch: BulkPatch) => Promise<BulkUpdateResult>;
+  onClear: () => void;
+}
+
+const STATUSES: TransferStatus[] = ['Not Start', 'In Progress', 'Finished', 'Not to Transfer'];
+const KEEP = 'keep';
+const NO_SUPPLIER = 'none';
+
+/** Sticky bar for applying one change to every selected part in a single write */
+export const BulkActionBar = ({ selectedCount, suppliers, onApply, onClear }: BulkActionBarProps) => {
+  const [status, setStatus] = useState<TransferStatus | typeof KEEP>(KEEP);
+  const [plannedStart, setPlannedStart] = useState<string | null | undefined>(undefined);
+  const [expectedCompletion, setExpectedCompletion] = useState<string | null | undefined>(undefined);
+  const [reason, setReason] = useState('');
+  const [brand, setBrand] = useState('');
+  const [supplierId, setSupplierId] = useState(KEEP);
+  const [note, setNote] = useState('');
+  const [applying, setApplying] = useState(false);
+
+  if (!selectedCount) return null;
+
+  const patch: BulkPatch = {};
+  if (status !== KEEP) patch.status = status;
+  if (plannedStart !== undefined) patch.plannedStart = plannedStart;
+  if (expectedCompletion !== undefined) patch.expectedCompletion = expectedCompletion;
+  if (reason.trim()) patch.reason = reason;
+  if (brand.trim()) patch.brand = brand;
+  if (supplierId !== KEEP) patch.supplierId = supplierId === NO_SUPPLIER ? null : supplierId;
+  if (note.trim()) patch.note = note;
+  const hasChanges = Object.keys(patch).some((key) => key !== 'note');
+
+  const reset = () => {
+    setStatus(KEEP);
+    setPlannedStart(undefined);
+    setExpectedCompletion(undefined);
+    setReason('');
+    setBrand('');
+    setSupplierId(KEEP);
+    setNote('');
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    const result = await onApply(patch);
+    setApplying(false);
+
+    if (!result.success) {
+      toast.error('Bulk update failed', { description: result.reasons.join(' ') });
+      return;
+    }
+
+    // The update itself is reported by the write queue's toast, with Undo
+    if (result.skipped.length) {
+      const reasons = Array.from(new Set(result.skipped.flatMap((entry) => entry.reasons)));
+      toast.warning(`Skipped ${result.skipped.length} parts`, { description: reasons.join(' ') });
+    }
+
+    reset();
+    if (!result.skipped.length) onClear();
+  };
+
+  return (
+    <div className="sticky bottom-4 z-30 rounded-2xl border border-indigo-200 bg-white/95 p-4 shadow-lg backdrop-blur-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-semibold text-slate-900">
+          <Layers className="h-4 w-4 text-indigo-600" />
+          {selectedCount} selected
+        </div>
+        <Button size="sm" variant="ghost" className="h-8 gap-1 text-xs" onClick={onClear}>
+          <X className="h-3.5 w-3.5" />
+          Clear selection
+        </Button>
+      </div>
+      <div className="mt-3 grid gap-3 md:grid-cols-3 xl:grid-cols-[1fr_1fr_1fr_1fr_1fr_1fr_1.2fr_auto] xl:items-end">
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-500">Status</Label>
+          <Select value={status} onValueChange={(value) => setStatus(value as TransferStatus | typeof KEEP)}>
+            <SelectTrigger className="text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP}>Keep current</SelectItem>
+              {STATUSES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-500">Planned start</Label>
+          <DateSelector value={plannedStart || undefined} onChange={setPlannedStart} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-500">Expected completion</Label>
+          <DateSelector value={expectedCompletion || undefined} onChange={setExpectedCompletion} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-500">Hold reason</Label>
+          <Input value={reason} placeholder="Keep current" onChange={(e) => setReason(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-500">Brand</Label>
+          <Input value={brand} placeholder="Keep current" onChange={(e) => setBrand(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-500">Supplier</Label>
+          <Select value={supplierId} onValueChange={setSupplierId}>
+            <SelectTrigger className="text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP}>Keep current</SelectItem>
+              <SelectItem value={NO_SUPPLIER}>No supplier</SelectItem>
+              {suppliers.map((supplier) => (
+                <SelectItem key={supplier.id} value={supplier.id}>
+                  {supplier.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-500">Note / justification</Label>
+          <Input value={note} placeholder="Recorded in history" onChange={(e) => setNote(e.target.value)} />
+        </div>
+        <Button onClick={handleApply} disabled={!hasChanges || applying}>
+          {applying ? 'Applying…' : 'Apply'}
+        </Button>
+      </div>
+    </div>
+  );
+};
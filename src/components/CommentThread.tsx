@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { format, isValid, parseISO } from 'date-fns';
+import { Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/sonner';
+import { useComments } from '@/hooks/useComments';
+import { BomComment } from '@/types/bom';
+
+const formatTimestamp = (value: string) => {
+  const parsed = parseISO(value);
+  return isValid(parsed) ? format(parsed, 'd MMM yyyy, HH:mm') : value;
+};
+
+interface CommentItemProps {
+  comment: BomComment;
+  own: boolean;
+  onUpdate: (text: string) => Promise<boolean>;
+  onDelete: () => Promise<boolean>;
+}
+
+const CommentItem = ({ comment, own, onUpdate, onDelete }: CommentItemProps) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.text);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    const success = await onUpdate(draft);
+    setSaving(false);
+    if (success) {
+      setEditing(false);
+    } else {
+      toast.error('Comment not saved', { description: 'Please try again.' });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!(await onDelete())) {
+      toast.error('Comment not deleted', { description: 'Please try again.' });
+    }
+  };
+
+  return (
+    <li className="space-y-1 border-l-2 border-slate-200 pl-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-slate-500">
+          <span className="font-semibold text-slate-700">{comment.author}</span> · {formatTimestamp(comment.createdAt)}
+          {comment.updatedAt && ' · edited'}
+        </p>
+        {own && !editing && (
+          <div className="flex gap-1">
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              title="Edit comment"
+              onClick={() => {
+                setDraft(comment.text);
+                setEditing(true);
+              }}
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7" title="Delete comment" onClick={handleDelete}>
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+      </div>
+      {editing ? (
+        <div className="space-y-2">
+          <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} className="min-h-[60px]" />
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setEditing(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={saving || !draft.trim()}>
+              {saving ? 'Saving…' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="whitespace-pre-wrap text-sm text-slate-700">{comment.text}</p>
+      )}
+    </li>
+  );
+};
+
+interface CommentThreadProps {
+  componentMaterial: string;
+}
+
+export const CommentThread = ({ componentMaterial }: CommentThreadProps) => {
+  const { comments, loading, error, currentUserId, canComment, addComment, updateComment, deleteComment } =
+    useComments(componentMaterial);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const handlePost = async () => {
+    setPosting(true);
+    const success = await addComment(draft);
+    setPosting(false);
+    if (success) {
+      setDraft('');
+    } else {
+      toast.error('Comment not posted', { description: 'Please try again.' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {loading && <Skeleton className="h-14 w-full" />}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!loading && !error && comments.length === 0 && (
+        <p className="text-sm text-slate-500">No one has commented on this part yet.</p>
+      )}
+      <ol className="space-y-3">
+        {comments.map((comment) => (
+          <CommentItem
+            key={comment.id}
+            comment={comment}
+            own={comment.authorId === currentUserId}
+            onUpdate={(text) => updateComment(comment.id, text)}
+            onDelete={() => deleteComment(comment.id)}
+          />
+        ))}
+      </ol>
+      {canComment ? (
+        <div className="space-y-2">
+          <Textarea
+            placeholder="Add a comment"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="min-h-[70px]"
+          />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handlePost} disabled={posting || !draft.trim()}>
+              {posting ? 'Posting…' : 'Comment'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">Sign in to join the discussion.</p>
+      )}
+    </div>
+  );
+};
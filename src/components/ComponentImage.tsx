@@ -0,0 +1,119 @@
+import { ChangeEvent, ClipboardEvent, DragEvent, useRef, useState } from 'react';
+import { ImageUp, Loader2 } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from '@/components/ui/sonner';
+import { useComponentImage } from '@/hooks/useComponentImage';
+import { useImageUpload } from '@/hooks/useImageUpload';
+import { imageResolver } from '@/lib/imageResolver';
+import { IMAGE_UPLOAD_FAILURE_MESSAGES, imageFromTransfer } from '@/lib/imageUpload';
+import { cn } from '@/lib/utils';
+
+interface ComponentImageProps {
+  componentMaterial: string;
+  className?: string;
+  imageClassName?: string;
+  placeholder?: string;
+  /** Accept a dropped, pasted or picked image as the part's new image */
+  editable?: boolean;
+}
+
+export const ComponentImage = ({
+  componentMaterial,
+  className,
+  imageClassName = 'object-cover',
+  placeholder = 'No image',
+  editable = false,
+}: ComponentImageProps) => {
+  const url = useComponentImage(componentMaterial);
+  const { uploading, canUpload, upload } = useImageUpload(componentMaterial);
+  const [dragging, setDragging] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const acceptsUploads = editable && canUpload;
+
+  const handleFile = async (file: File | null) => {
+    if (!file) return;
+    const result = await upload(file);
+    if ('failure' in result) {
+      toast.error('Image not uploaded', { description: IMAGE_UPLOAD_FAILURE_MESSAGES[result.failure] });
+    } else {
+      toast.success(`Image for ${componentMaterial} updated`);
+    }
+  };
+
+  const uploadHandlers = acceptsUploads
+    ? {
+        tabIndex: 0,
+        title: 'Drop, paste or click to replace the image',
+        onClick: () => fileInput.current?.click(),
+        onDragOver: (event: DragEvent) => {
+          event.preventDefault();
+          setDragging(true);
+        },
+        onDragLeave: () => setDragging(false),
+        onDrop: (event: DragEvent) => {
+          event.preventDefault();
+          setDragging(false);
+          handleFile(imageFromTransfer(event.dataTransfer));
+        },
+        onPaste: (event: ClipboardEvent) => {
+          const file = imageFromTransfer(event.clipboardData);
+          if (file) {
+            event.preventDefault();
+            handleFile(file);
+          }
+        },
+      }
+    : {};
+
+  if (url === undefined) {
+    return <Skeleton className={cn('rounded-md', className)} />;
+  }
+
+  return (
+    <div
+      className={cn(
+        'relative overflow-hidden rounded-md bg-slate-100',
+        acceptsUploads && 'group cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400',
+        dragging && 'ring-2 ring-indigo-500',
+        className
+      )}
+      {...uploadHandlers}
+    >
+      {url ? (
+        <img
+          src={url}
+          alt={componentMaterial}
+          loading="lazy"
+          className={cn('h-full w-full', imageClassName)}
+          // A stale cached URL is looked up again once rather than shown broken
+          onError={() => imageResolver.invalidate(componentMaterial)}
+        />
+      ) : (
+        <div className="flex h-full w-full items-center justify-center text-xs text-slate-400">{placeholder}</div>
+      )}
+      {acceptsUploads && (
+        <>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onClick={(event) => event.stopPropagation()}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => {
+              handleFile(event.target.files?.[0] ?? null);
+              event.target.value = '';
+            }}
+          />
+          <div
+            className={cn(
+              'absolute inset-0 flex items-center justify-center bg-slate-900/40 text-white transition-opacity',
+              uploading || dragging ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 group-focus-visible:opacity-100'
+            )}
+          >
+            {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImageUp className="h-4 w-4" />}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+import { addMonths, format, isValid, parseISO, startOfMonth } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const parseDate = (value?: string) => {
+  if (!value) return null;
+  const parsed = parseISO(value);
+  return isValid(parsed) ? startOfMonth(parsed) : null;
+};
+
+/** Month picker over the next twelve months; values are month-start ISO strings */
+export const DateSelector = ({
+  value,
+  onChange,
+  disabled = false,
+}: {
+  value?: string;
+  onChange: (newDate: string | null) => void;
+  disabled?: boolean;
+}) => {
+  const parsed = value ? parseDate(value) : null;
+  const monthOptions = useMemo(() => {
+    const months: { label: string; value: string }[] = [];
+    const start = startOfMonth(new Date());
+
+    for (let i = 0; i < 12; i += 1) {
+      const month = addMonths(start, i);
+      months.push({ label: format(month, 'MMM yyyy'), value: month.toISOString() });
+    }
+
+    return months;
+  }, []);
+
+  const handleSelect = (date?: Date) => {
+    if (!date) {
+      onChange(null);
+      return;
+    }
+
+    const monthStart = startOfMonth(date);
+    onChange(monthStart.toISOString());
+  };
+
+  return (
+    <Select
+      disabled={disabled}
+      value={parsed ? parsed.toISOString() : undefined}
+      onValueChange={(newValue) => {
+        if (newValue === 'clear') {
+          onChange(null);
+          return;
+        }
+        handleSelect(new Date(newValue));
+      }}
+    >
+      <SelectTrigger className="w-full justify-between text-sm">
+        <div className="flex items-center gap-2">
+          <CalendarIcon className="h-4 w-4 text-slate-500" />
+          <SelectValue placeholder="Select month" />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="clear">Clear</SelectItem>
+        {monthOptions.map((month) => (
+          <SelectItem key={month.value} value={month.value}>
+            {month.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -0,0 +1,109 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ExchangeRateFields } from '@/hooks/useCurrency';
+import { CURRENCIES, FALLBACK_AUD_RATES } from '@/lib/currency';
+
+const exchangeRateSchema = z.object({
+  currency: z.enum(['CNY', 'USD']),
+  audPerUnit: z.coerce
+    .number({ invalid_type_error: 'Enter the rate' })
+    .positive('The rate must be greater than zero')
+    .max(1000, 'Check the rate; it is AUD per one unit'),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Pick the date the rate applies from'),
+});
+
+// AUD is the stored currency, so it never needs a rate
+const RATE_CURRENCIES = CURRENCIES.filter((currency) => currency !== 'AUD');
+
+const emptyRate = (): ExchangeRateFields => ({
+  currency: 'CNY',
+  audPerUnit: FALLBACK_AUD_RATES.CNY,
+  effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
+});
+
+interface ExchangeRateFormProps {
+  initial?: ExchangeRateFields;
+  onSubmit: (fields: ExchangeRateFields) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+export const ExchangeRateForm = ({ initial, onSubmit, onCancel }: ExchangeRateFormProps) => {
+  const form = useForm<ExchangeRateFields>({
+    resolver: zodResolver(exchangeRateSchema),
+    defaultValues: initial ?? emptyRate(),
+  });
+  const { isSubmitting } = form.formState;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {RATE_CURRENCIES.map((currency) => (
+                      <SelectItem key={currency} value={currency}>
+                        {currency}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="audPerUnit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>AUD per unit</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step="0.0001" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="effectiveFrom"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Effective from</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Saving…' : 'Save rate'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,338 @@
+import { useEffect, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { isBefore, isValid, parseISO } from 'date-fns';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { DateSelector } from '@/components/DateSelector';
+import { BulkPatch } from '@/hooks/useBomData';
+import { canHaveSupplier } from '@/lib/suppliers';
+import { evaluateTransition, TransitionRequirement } from '@/lib/transferPolicy';
+import { CURRENCIES } from '@/lib/currency';
+import { BomItem, CurrencyCode, Supplier, TransferStatus } from '@/types/bom';
+
+const STATUSES: TransferStatus[] = ['Not Start', 'In Progress', 'Finished', 'Not to Transfer'];
+const NO_SUPPLIER = 'none';
+
+const partFormSchema = z.object({
+  status: z.enum(['Not Start', 'In Progress', 'Finished', 'Not to Transfer']),
+  plannedStart: z.string().nullable(),
+  expectedCompletion: z.string().nullable(),
+  reason: z.string().trim().max(500, 'Keep the reason under 500 characters'),
+  brand: z.string().trim().max(100, 'Keep the brand under 100 characters'),
+  supplierId: z.string(),
+  quotePrice: z
+    .string()
+    .trim()
+    .refine((value) => !value || (Number.isFinite(Number(value)) && Number(value) > 0), 'Enter a unit price above zero'),
+  quoteCurrency: z.enum(['AUD', 'CNY', 'USD']),
+  note: z.string().trim().max(500, 'Keep the note under 500 characters'),
+});
+
+export type PartFormValues = z.infer<typeof partFormSchema>;
+
+const REQUIREMENT_FIELDS: Record<TransitionRequirement, keyof PartFormValues> = {
+  expectedCompletion: 'expectedCompletion',
+  reason: 'reason',
+  justification: 'note',
+};
+
+const toFormValues = (item: BomItem): PartFormValues => ({
+  status: item.Transfer_Status || 'Not Start',
+  plannedStart: item.Planned_Start || null,
+  expectedCompletion: item.Expected_Completion || null,
+  reason: item.NotToTransferReason || '',
+  brand: item.Brand || '',
+  supplierId: item.Supplier_Id || '',
+  quotePrice: item.Quote_Price ? String(item.Quote_Price) : '',
+  quoteCurrency: item.Quote_Currency || 'CNY',
+  note: '',
+});
+
+// Transition rules and date order are checked against the part as it is now
+const createPartSchema = (item: BomItem, canRevertFinished: boolean) =>
+  partFormSchema.superRefine((values, ctx) => {
+    const result = evaluateTransition({
+      item,
+      from: item.Transfer_Status || 'Not Start',
+      to: values.status,
+      input: {
+        note: values.note,
+        expectedCompletion: values.expectedCompletion,
+        reason: values.reason,
+        brand: values.brand,
+      },
+      canRevertFinished,
+    });
+    result.violations.forEach((rule) => {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: rule.message,
+        path: [rule.requirement ? REQUIREMENT_FIELDS[rule.requirement] : 'status'],
+      });
+    });
+
+    // An existing assignment is released by the status change itself
+    if (values.supplierId && values.supplierId !== (item.Supplier_Id || '') && !canHaveSupplier(values.status)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Only In Progress or Finished parts can be assigned to a supplier.',
+        path: ['supplierId'],
+      });
+    }
+
+    const planned = values.plannedStart ? parseISO(values.plannedStart) : null;
+    const expected = values.expectedCompletion ? parseISO(values.expectedCompletion) : null;
+    if (planned && expected && isValid(planned) && isValid(expected) && isBefore(expected, planned)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Expected completion cannot be before the planned start.',
+        path: ['expectedCompletion'],
+      });
+    }
+  });
+
+/** Only the fields that differ from the stored part, so untouched fields are not rewritten */
+const toPatch = (item: BomItem, values: PartFormValues): BulkPatch => {
+  const initial = toFormValues(item);
+  const patch: BulkPatch = {};
+  if (values.status !== initial.status) patch.status = values.status;
+  if (values.plannedStart !== initial.plannedStart) patch.plannedStart = values.plannedStart;
+  if (values.expectedCompletion !== initial.expectedCompletion) patch.expectedCompletion = values.expectedCompletion;
+  if (values.reason !== initial.reason) patch.reason = values.reason;
+  if (values.brand !== initial.brand) patch.brand = values.brand;
+  if (values.supplierId !== initial.supplierId && canHaveSupplier(values.status)) {
+    patch.supplierId = values.supplierId || null;
+  }
+  if (values.quotePrice !== initial.quotePrice || (values.quotePrice && values.quoteCurrency !== initial.quoteCurrency)) {
+    patch.quotePrice = values.quotePrice ? Number(values.quotePrice) : null;
+    patch.quoteCurrency = values.quoteCurrency;
+  }
+  if (values.note) patch.note = values.note;
+  return patch;
+};
+
+interface PartEditFormProps {
+  item: BomItem;
+  readOnly: boolean;
+  canRevertFinished: boolean;
+  suppliers: Supplier[];
+  onSave: (patch: BulkPatch) => Promise<boolean>;
+}
+
+export const PartEditForm = ({ item, readOnly, canRevertFinished, suppliers, onSave }: PartEditFormProps) => {
+  const schema = useMemo(() => createPartSchema(item, canRevertFinished), [item, canRevertFinished]);
+  const form = useForm<PartFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: toFormValues(item),
+  });
+  const { isDirty, isSubmitting } = form.formState;
+
+  // Pick up changes made elsewhere unless the user is mid-edit
+  useEffect(() => {
+    if (!form.formState.isDirty) {
+      form.reset(toFormValues(item));
+    }
+  }, [form, item]);
+
+  const handleSubmit = async (values: PartFormValues) => {
+    const success = await onSave(toPatch(item, values));
+    if (success) {
+      form.reset({ ...values, note: '' });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <fieldset disabled={readOnly} className="grid gap-4 md:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Transfer status</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange} disabled={readOnly}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {status}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="brand"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Brand</FormLabel>
+                <FormControl>
+                  <Input placeholder="Brand used in AU" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="supplierId"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Supplier</FormLabel>
+                <Select
+                  value={field.value || NO_SUPPLIER}
+                  onValueChange={(value) => {
+                    field.onChange(value === NO_SUPPLIER ? '' : value);
+                    // A new quote defaults to the supplier's currency
+                    const supplier = suppliers.find((candidate) => candidate.id === value);
+                    if (supplier && !form.getValues('quotePrice')) {
+                      form.setValue('quoteCurrency', supplier.currency, { shouldDirty: true });
+                    }
+                  }}
+                  disabled={readOnly}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_SUPPLIER}>No supplier</SelectItem>
+                    {suppliers.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                        {supplier.location && ` · ${supplier.location}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Assign once the part is In Progress or Finished.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="quotePrice"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Quoted unit price</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step="0.01" placeholder="China quote" {...field} />
+                </FormControl>
+                <FormDescription>Compared with the AU standard price to work out savings.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="quoteCurrency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Quote currency</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={(value) => field.onChange(value as CurrencyCode)}
+                  disabled={readOnly}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CURRENCIES.map((currency) => (
+                      <SelectItem key={currency} value={currency}>
+                        {currency}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="plannedStart"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Planned start</FormLabel>
+                <DateSelector value={field.value ?? undefined} onChange={field.onChange} disabled={readOnly} />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="expectedCompletion"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Expected completion</FormLabel>
+                <DateSelector value={field.value ?? undefined} onChange={field.onChange} disabled={readOnly} />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="reason"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Hold reason</FormLabel>
+                <FormControl>
+                  <Textarea placeholder="Why the part stays in AU" className="min-h-[70px]" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="note"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Change note</FormLabel>
+                <FormControl>
+                  <Textarea placeholder="Recorded in the status history" className="min-h-[60px]" {...field} />
+                </FormControl>
+                <FormDescription>Required when a Finished part is moved back.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </fieldset>
+        {!readOnly && (
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              disabled={!isDirty || isSubmitting}
+              onClick={() => form.reset(toFormValues(item))}
+            >
+              Discard
+            </Button>
+            <Button type="submit" disabled={!isDirty || isSubmitting}>
+              {isSubmitting ? 'Saving…' : 'Save changes'}
+            </Button>
+          </div>
+        )}
+      </form>
+    </Form>
+  );
+};
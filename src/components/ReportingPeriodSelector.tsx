@@ -0,0 +1,83 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  currentPeriod,
+  formatPeriodLabel,
+  formatPeriodRange,
+  getPeriodRange,
+  PERIOD_KINDS,
+  PeriodKind,
+  ReportingPeriod,
+  shiftPeriod,
+} from '@/lib/reportingPeriod';
+
+interface ReportingPeriodSelectorProps {
+  value: ReportingPeriod;
+  onChange: (period: ReportingPeriod) => void;
+  fiscalStartMonth: number;
+}
+
+export const ReportingPeriodSelector = ({ value, onChange, fiscalStartMonth }: ReportingPeriodSelectorProps) => (
+  <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+    <span className="font-semibold text-slate-700">Period</span>
+    <Select value={value.kind} onValueChange={(kind) => onChange(currentPeriod(kind as PeriodKind, fiscalStartMonth))}>
+      <SelectTrigger className="h-8 w-[150px] text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {PERIOD_KINDS.map((option) => (
+          <SelectItem key={option.kind} value={option.kind}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+
+    {value.kind === 'custom' ? (
+      <>
+        <Input
+          type="date"
+          className="h-8 w-[150px] text-xs"
+          value={value.from}
+          max={value.to}
+          onChange={(e) => e.target.value && onChange({ ...value, from: e.target.value })}
+        />
+        <span>to</span>
+        <Input
+          type="date"
+          className="h-8 w-[150px] text-xs"
+          value={value.to}
+          min={value.from}
+          onChange={(e) => e.target.value && onChange({ ...value, to: e.target.value })}
+        />
+      </>
+    ) : (
+      <div className="flex items-center gap-1">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8"
+          onClick={() => onChange(shiftPeriod(value, -1))}
+          title="Previous period"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <div className="min-w-[9rem] text-center">
+          <div className="font-semibold text-slate-900">{formatPeriodLabel(value)}</div>
+          <div className="text-[11px]">{formatPeriodRange(getPeriodRange(value, fiscalStartMonth))}</div>
+        </div>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8"
+          onClick={() => onChange(shiftPeriod(value, 1))}
+          title="Next period"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    )}
+  </div>
+);
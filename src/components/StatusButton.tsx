@@ -1,15 +1,44 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/sonner';
+import { StatusTransitionDialog } from '@/components/StatusTransitionDialog';
+import { WriteResult } from '@/hooks/useBomData';
+import {
+  evaluateTransition,
+  getBlockingViolations,
+  getMissingRequirements,
+  TransitionContext,
+  TransitionInput,
+  TransitionRequirement,
+} from '@/lib/transferPolicy';
 import { TransferStatus } from '@/types/bom';
 import { CheckCircle, Clock, XCircle, Ban } from 'lucide-react';
 
 interface StatusButtonProps {
   currentStatus: TransferStatus;
-  onStatusChange: (status: TransferStatus) => Promise<boolean>;
+  onStatusChange: (status: TransferStatus, input?: TransitionInput) => Promise<WriteResult>;
+  /** Current part details checked by the transition rules */
+  item?: TransitionContext['item'];
+  /** Shows the current status without allowing changes (viewers) */
+  readOnly?: boolean;
+  /** Whether a Finished part may be moved back to another status */
+  allowRevertFinished?: boolean;
+  /** Pre-fills the note of the transition dialog */
+  note?: string;
 }
 
-export const StatusButton = ({ currentStatus, onStatusChange }: StatusButtonProps) => {
+export const StatusButton = ({
+  currentStatus,
+  onStatusChange,
+  item = {},
+  readOnly = false,
+  allowRevertFinished = true,
+  note,
+}: StatusButtonProps) => {
   const [isUpdating, setIsUpdating] = useState(false);
+  const [pendingStatus, setPendingStatus] = useState<TransferStatus | null>(null);
+  const [requirements, setRequirements] = useState<TransitionRequirement[]>([]);
+  const [dialogErrors, setDialogErrors] = useState<string[]>([]);
 
   const getStatusConfig = (status: TransferStatus) => {
     switch (status) {
@@ -40,18 +69,57 @@ export const StatusButton = ({ currentStatus, onStatusChange }: StatusButtonProp
     }
   };
 
-  const handleStatusClick = async (newStatus: TransferStatus) => {
-    if (isUpdating || newStatus === currentStatus) return;
+  const evaluate = (status: TransferStatus, input: TransitionInput = {}) =>
+    evaluateTransition({ item, from: currentStatus, to: status, input, canRevertFinished: allowRevertFinished });
+
+  // Rules that no amount of input can satisfy, e.g. missing permissions
+  const blockedBy = (status: TransferStatus) => (readOnly ? [] : getBlockingViolations(evaluate(status)));
 
+  const commit = async (newStatus: TransferStatus, input?: TransitionInput) => {
     setIsUpdating(true);
-    const success = await onStatusChange(newStatus);
-    
+    const { success, reasons } = await onStatusChange(newStatus, input);
+
+    // Accepted changes are reported by the write queue's toasts, with Undo
     if (!success) {
-      // Show error message - you could use a toast here
-      alert('Failed to update status. Please try again.');
+      toast.error(`Cannot move to ${newStatus}`, { description: reasons.join(' ') });
     }
-    
+
     setIsUpdating(false);
+    return success;
+  };
+
+  const handleStatusClick = async (newStatus: TransferStatus) => {
+    if (readOnly || isUpdating || newStatus === currentStatus) return;
+
+    const result = evaluate(newStatus, { note });
+    const blocking = getBlockingViolations(result);
+    if (blocking.length) {
+      toast.error(`Cannot move to ${newStatus}`, { description: blocking.map((rule) => rule.message).join(' ') });
+      return;
+    }
+
+    const missing = getMissingRequirements(result);
+    if (missing.length) {
+      setRequirements(missing);
+      setDialogErrors([]);
+      setPendingStatus(newStatus);
+      return;
+    }
+
+    await commit(newStatus, { note });
+  };
+
+  const handleDialogConfirm = async (input: TransitionInput) => {
+    if (!pendingStatus) return;
+
+    const result = evaluate(pendingStatus, input);
+    if (!result.allowed) {
+      setDialogErrors(result.violations.map((rule) => rule.message));
+      return;
+    }
+
+    const success = await commit(pendingStatus, input);
+    if (success) setPendingStatus(null);
   };
 
   const statuses: TransferStatus[] = ['Not Start', 'In Progress', 'Finished', 'Not to Transfer'];
@@ -62,21 +130,37 @@ export const StatusButton = ({ currentStatus, onStatusChange }: StatusButtonProp
         const config = getStatusConfig(status);
         const Icon = config.icon;
         const isActive = status === currentStatus;
-        
+        const blocking = isActive ? [] : blockedBy(status);
+        const isDisabled = isUpdating || (!isActive && readOnly);
+
         return (
           <Button
             key={status}
             size="sm"
             variant={isActive ? config.variant : 'ghost'}
-            className={`h-8 px-2 ${isActive ? config.className : 'text-gray-400 hover:text-gray-600'}`}
+            className={`h-8 px-2 ${isActive ? config.className : 'text-gray-400 hover:text-gray-600'} ${
+              blocking.length ? 'opacity-50' : ''
+            }`}
             onClick={() => handleStatusClick(status)}
-            disabled={isUpdating}
-            title={status}
+            disabled={isDisabled}
+            title={blocking.length ? `${status}: ${blocking.map((rule) => rule.message).join(' ')}` : status}
           >
             <Icon className="h-3 w-3" />
           </Button>
         );
       })}
+      <StatusTransitionDialog
+        key={pendingStatus ?? 'closed'}
+        from={currentStatus}
+        to={pendingStatus}
+        requirements={requirements}
+        item={item}
+        initialNote={note}
+        errors={dialogErrors}
+        submitting={isUpdating}
+        onCancel={() => setPendingStatus(null)}
+        onConfirm={handleDialogConfirm}
+      />
     </div>
   );
 };
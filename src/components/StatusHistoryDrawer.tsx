@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { format, isValid, parseISO } from 'date-fns';
+import { ArrowRight, History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { StatusButton } from '@/components/StatusButton';
+import { WriteResult } from '@/hooks/useBomData';
+import { useStatusHistory } from '@/hooks/useStatusHistory';
+import { useAuth } from '@/hooks/useAuth';
+import { TransitionInput } from '@/lib/transferPolicy';
+import { BomItem, TransferStatus } from '@/types/bom';
+
+interface StatusHistoryDrawerProps {
+  item: BomItem | null;
+  onOpenChange: (open: boolean) => void;
+  onStatusChange: (componentMaterial: string, status: TransferStatus, input?: TransitionInput) => Promise<WriteResult>;
+  statusAccess: { readOnly: boolean; allowRevertFinished: boolean };
+}
+
+const formatTimestamp = (value: string) => {
+  const parsed = parseISO(value);
+  return isValid(parsed) ? format(parsed, 'd MMM yyyy, HH:mm') : 'Unknown time';
+};
+
+export const StatusHistoryDrawer = ({ item, onOpenChange, onStatusChange, statusAccess }: StatusHistoryDrawerProps) => {
+  const { entries, loading, error } = useStatusHistory(item?.Component_Material ?? null);
+  const { user } = useAuth();
+  const [note, setNote] = useState('');
+
+  return (
+    <Sheet
+      open={!!item}
+      onOpenChange={(open) => {
+        if (!open) setNote('');
+        onOpenChange(open);
+      }}
+    >
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-indigo-600" />
+            {item?.Component_Material}
+          </SheetTitle>
+          <SheetDescription className="line-clamp-2">{item?.Description_EN}</SheetDescription>
+        </SheetHeader>
+
+        {item && !statusAccess.readOnly && (
+          <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-3">
+            <p className="text-xs text-slate-500">Recording changes as {user?.displayName}</p>
+            <div className="space-y-1">
+              <Label className="text-xs text-slate-500">Note for next change (optional)</Label>
+              <Textarea
+                value={note}
+                placeholder="Why is the status changing?"
+                className="min-h-[60px]"
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+            <StatusButton
+              currentStatus={(item.Transfer_Status || 'Not Start') as TransferStatus}
+              onStatusChange={async (status, input) => {
+                const result = await onStatusChange(item.Component_Material, status, { ...input, note: input?.note ?? note });
+                if (result.success) setNote('');
+                return result;
+              }}
+              item={item}
+              note={note}
+              {...statusAccess}
+            />
+          </div>
+        )}
+
+        <Separator />
+
+        <ScrollArea className="flex-1">
+          {loading && (
+            <div className="space-y-3">
+              <Skeleton className="h-14 w-full" />
+              <Skeleton className="h-14 w-full" />
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!loading && !error && entries.length === 0 && (
+            <p className="text-sm text-slate-500">No status changes have been recorded for this part yet.</p>
+          )}
+          <ol className="relative space-y-4 border-l border-slate-200 pl-4">
+            {entries.map((entry) => (
+              <li key={entry.id} className="relative space-y-1">
+                <span className="absolute -left-[22px] top-1.5 h-3 w-3 rounded-full border border-white bg-indigo-500" />
+                <div className="flex flex-wrap items-center gap-1 text-sm">
+                  <Badge variant="outline" className="text-xs">{entry.from}</Badge>
+                  <ArrowRight className="h-3 w-3 text-slate-400" />
+                  <Badge className="bg-indigo-50 text-xs text-indigo-700">{entry.to}</Badge>
+                </div>
+                <p className="text-xs text-slate-500">
+                  {formatTimestamp(entry.at)} · {entry.actor}
+                </p>
+                {entry.note && <p className="text-sm text-slate-700">{entry.note}</p>}
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DateSelector } from '@/components/DateSelector';
+import { TransitionContext, TransitionInput, TransitionRequirement } from '@/lib/transferPolicy';
+import { TransferStatus } from '@/types/bom';
+
+interface StatusTransitionDialogProps {
+  from: TransferStatus;
+  to: TransferStatus | null;
+  requirements: TransitionRequirement[];
+  item?: TransitionContext['item'];
+  initialNote?: string;
+  /** Messages of rules that still block the change */
+  errors: string[];
+  submitting: boolean;
+  onCancel: () => void;
+  onConfirm: (input: TransitionInput) => void;
+}
+
+/**
+ * Collects the details a transition rule asks for before the status is changed.
+ * Fields are seeded on mount, so render it with a key per pending transition.
+ */
+export const StatusTransitionDialog = ({
+  from,
+  to,
+  requirements,
+  item,
+  initialNote = '',
+  errors,
+  submitting,
+  onCancel,
+  onConfirm,
+}: StatusTransitionDialogProps) => {
+  const [expectedCompletion, setExpectedCompletion] = useState<string | null>(item?.Expected_Completion || null);
+  const [reason, setReason] = useState(item?.NotToTransferReason || '');
+  const [brand, setBrand] = useState(item?.Brand || '');
+  const [note, setNote] = useState(initialNote);
+
+  const handleConfirm = () => {
+    const input: TransitionInput = { note };
+    if (requirements.includes('expectedCompletion')) input.expectedCompletion = expectedCompletion;
+    if (requirements.includes('reason')) {
+      input.reason = reason;
+      input.brand = brand;
+    }
+    onConfirm(input);
+  };
+
+  return (
+    <Dialog open={!!to} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {from} → {to}
+          </DialogTitle>
+          <DialogDescription>This change needs a few details before it can be saved.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {requirements.includes('expectedCompletion') && (
+            <div className="space-y-1">
+              <Label className="text-xs text-slate-500">Expected completion</Label>
+              <DateSelector value={expectedCompletion || undefined} onChange={setExpectedCompletion} />
+            </div>
+          )}
+          {requirements.includes('reason') && (
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label className="text-xs text-slate-500">Reason</Label>
+                <Input value={reason} placeholder="Why held in AU" onChange={(e) => setReason(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-slate-500">Brand</Label>
+                <Input value={brand} placeholder="Brand" onChange={(e) => setBrand(e.target.value)} />
+              </div>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label className="text-xs text-slate-500">
+              {requirements.includes('justification') ? 'Justification' : 'Note (optional)'}
+            </Label>
+            <Textarea
+              value={note}
+              placeholder="Why is the status changing?"
+              className="min-h-[70px]"
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          {errors.length > 0 && (
+            <ul className="space-y-1 text-sm text-red-600">
+              {errors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={submitting}>
+            {submitting ? 'Saving…' : `Move to ${to}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
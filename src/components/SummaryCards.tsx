@@ -1,4 +1,5 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useCurrency } from '@/hooks/useCurrency';
 import { BomItem } from '@/types/bom';
 import { DollarSign, Package, Clock, CheckCircle, AlertTriangle, Hash, Ban } from 'lucide-react';
 
@@ -35,17 +36,14 @@ const STATUSES: TransferStatus[] = [
 ];
 
 export const SummaryCards = ({ bomItems }: SummaryCardsProps) => {
+  const { formatCurrency: formatAmount } = useCurrency();
   // ---- Overall totals ----
   const totalBomValue = bomItems.reduce((sum, item) => sum + num((item as any).Value), 0);
   const totalQty = bomItems.reduce((sum, item) => sum + num((item as any).Total_Qty), 0);
   const totalParts = bomItems.length;
 
   // ---- Kanban totals ----
-  const isKanban = (item: BomItem) => {
-    const flag = String((item as any).Kanban_Flag ?? '').toLowerCase().trim();
-    return flag === 'kanban' || flag === 'y' || flag === 'yes' || flag === '1' || flag === 'true';
-  };
-  const kanbanItems = bomItems.filter(isKanban);
+  const kanbanItems = bomItems.filter((item) => item.Is_Kanban);
   const kanbanValue = kanbanItems.reduce((sum, item) => sum + num((item as any).Value), 0);
   const kanbanQty = kanbanItems.reduce((sum, item) => sum + num((item as any).Total_Qty), 0);
   const kanbanParts = kanbanItems.length;
@@ -79,8 +77,7 @@ export const SummaryCards = ({ bomItems }: SummaryCardsProps) => {
   const currentBomParts = targetToTransferParts + notToTransferParts;
 
   // ---- Formatters ----
-  const formatCurrency = (value: number) =>
-    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(value);
+  const formatCurrency = (value: number) => formatAmount(value, { fractionDigits: 2 });
 
   const formatInt = (n: number) =>
     new Intl.NumberFormat('en-US', { maximumFractionDigits: 0 }).format(n);
@@ -0,0 +1,130 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SupplierFields } from '@/hooks/useSuppliers';
+import { CURRENCIES } from '@/lib/currency';
+
+const supplierSchema = z.object({
+  name: z.string().trim().min(1, 'Enter the supplier name').max(120, 'Keep the name under 120 characters'),
+  location: z.string().trim().max(120, 'Keep the location under 120 characters'),
+  contact: z.string().trim().max(200, 'Keep the contact under 200 characters'),
+  currency: z.enum(['AUD', 'CNY', 'USD']),
+  leadTimeDays: z.coerce
+    .number({ invalid_type_error: 'Enter the lead time in days' })
+    .int('Use whole days')
+    .min(0, 'Lead time cannot be negative')
+    .max(365, 'Lead time should be under a year'),
+});
+
+const EMPTY_SUPPLIER: SupplierFields = { name: '', location: '', contact: '', currency: 'CNY', leadTimeDays: 30 };
+
+interface SupplierFormProps {
+  initial?: SupplierFields;
+  onSubmit: (fields: SupplierFields) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+export const SupplierForm = ({ initial = EMPTY_SUPPLIER, onSubmit, onCancel }: SupplierFormProps) => {
+  const form = useForm<SupplierFields>({
+    resolver: zodResolver(supplierSchema),
+    defaultValues: initial,
+  });
+  const { isSubmitting } = form.formState;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Supplier name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="location"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Location</FormLabel>
+                <FormControl>
+                  <Input placeholder="City, province" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="contact"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Contact</FormLabel>
+                <FormControl>
+                  <Input placeholder="Name, email or phone" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Quote currency</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CURRENCIES.map((currency) => (
+                      <SelectItem key={currency} value={currency}>
+                        {currency}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="leadTimeDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Lead time (days)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step={1} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Saving…' : 'Save supplier'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,154 @@
+import { useSyncExternalStore } from 'react';
+import { format, isValid, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useSuppliers } from '@/hooks/useSuppliers';
+import { PartUpdate } from '@/lib/repository';
+import { overwriteViolations, QueuedWrite, writeQueue } from '@/lib/writeQueue';
+import { cn } from '@/lib/utils';
+import { Supplier } from '@/types/bom';
+
+const FIELD_LABELS: Record<string, string> = {
+  Transfer_Status: 'Status',
+  Planned_Start: 'Planned start',
+  Expected_Completion: 'Expected completion',
+  NotToTransferReason: 'Reason',
+  Brand: 'Brand',
+  Supplier_Id: 'Supplier',
+  Quote_Price: 'Quote price',
+  Quote_Currency: 'Quote currency',
+};
+
+const DATE_FIELDS = ['Planned_Start', 'Expected_Completion'];
+
+const formatTimestamp = (value?: string) => {
+  const parsed = value ? parseISO(value) : null;
+  return parsed && isValid(parsed) ? format(parsed, 'd MMM yyyy, HH:mm') : 'an unknown time';
+};
+
+// Everything the write would set on the part, status included
+const changedFields = ({ fields, status }: PartUpdate): Record<string, unknown> => ({
+  ...fields,
+  ...status?.details,
+  ...(status && { Transfer_Status: status.to }),
+});
+
+const formatValue = (field: string, value: unknown, suppliers: Supplier[]) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'Supplier_Id') return suppliers.find((supplier) => supplier.id === value)?.name ?? String(value);
+  if (DATE_FIELDS.includes(field)) {
+    const parsed = parseISO(String(value));
+    return isValid(parsed) ? format(parsed, 'd MMM yyyy') : String(value);
+  }
+  return String(value);
+};
+
+const ConflictDetails = ({ write }: { write: QueuedWrite }) => {
+  const { suppliers } = useSuppliers();
+  const conflicts = (write.conflicts ?? []).map((conflict) => ({
+    ...conflict,
+    violations: overwriteViolations(conflict, write.actor),
+  }));
+  const blocked = conflicts.filter((conflict) => conflict.violations.length > 0);
+  const otherParts = write.updates.length - conflicts.length;
+
+  return (
+    <>
+      <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+        {conflicts.map(({ componentMaterial, update, server, violations }) => (
+          <div key={componentMaterial} className="space-y-1">
+            <div className="text-sm font-medium text-slate-900">{componentMaterial}</div>
+            <div className="text-xs text-slate-500">
+              {server ? `Saved by someone else at ${formatTimestamp(server.Updated_At)}` : 'Removed since you edited it'}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Yours</TableHead>
+                  <TableHead>Saved now</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.entries(changedFields(update)).map(([field, mine]) => {
+                  const saved = server?.[field];
+                  const differs = formatValue(field, mine, suppliers) !== formatValue(field, saved, suppliers);
+                  return (
+                    <TableRow key={field} className={cn(!differs && 'text-slate-400')}>
+                      <TableCell>{FIELD_LABELS[field] ?? field}</TableCell>
+                      <TableCell className={cn(differs && 'font-medium text-blue-700')}>
+                        {formatValue(field, mine, suppliers)}
+                      </TableCell>
+                      <TableCell className={cn(differs && 'font-medium text-amber-700')}>
+                        {server ? formatValue(field, saved, suppliers) : '—'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {violations.length > 0 && (
+              <ul className="space-y-1 text-sm text-red-600">
+                {violations.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+        {otherParts > 0 && (
+          <p className="text-sm text-slate-500">
+            Your change to {otherParts} other {otherParts === 1 ? 'part' : 'parts'} is saved with either choice.
+          </p>
+        )}
+        {blocked.length > 0 && blocked.length < conflicts.length && (
+          <p className="text-sm text-slate-500">
+            Overwriting saves the other parts. Blocked parts stay here until you keep the saved version.
+          </p>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => writeQueue.resolveConflict(write.id, 'theirs')}>
+          Keep saved version
+        </Button>
+        <Button onClick={() => writeQueue.resolveConflict(write.id, 'mine')} disabled={blocked.length === conflicts.length}>
+          Overwrite with mine
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
+
+/**
+ * Asks what to do with a queued write whose parts someone else changed first. One
+ * conflicting write is shown at a time, oldest first, until each is resolved.
+ */
+export const WriteConflictDialog = () => {
+  const writes = useSyncExternalStore(writeQueue.subscribe, writeQueue.get);
+  const write = writes.find((entry) => entry.state === 'conflict');
+
+  // Closing without a choice would leave the write stuck, so only the buttons dismiss it
+  return (
+    <Dialog open={!!write}>
+      <DialogContent className="sm:max-w-2xl [&>button]:hidden">
+        <DialogHeader>
+          <DialogTitle>{write ? `${write.label}: changed by someone else` : 'Conflicting change'}</DialogTitle>
+          <DialogDescription>
+            These parts were saved by another user after you made your change, so none of it was saved yet. Keep
+            their version of these parts, or overwrite it with yours.
+          </DialogDescription>
+        </DialogHeader>
+        {write && <ConflictDetails key={write.id} write={write} />}
+      </DialogContent>
+    </Dialog>
+  );
+};
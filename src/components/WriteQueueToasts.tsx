@@ -0,0 +1,91 @@
+import { useEffect } from 'react';
+import { toast } from '@/components/ui/sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { QueuedWrite, writeQueue } from '@/lib/writeQueue';
+
+const UNDO_DURATION_MS = 8000;
+
+const undoAction = (write: QueuedWrite) => ({
+  label: 'Undo',
+  onClick: () => {
+    if (!writeQueue.undo(write.id)) {
+      toast.error(`${write.label} can no longer be undone`, {
+        description: 'Undo later changes to the same parts first, or change it back by hand.',
+      });
+    }
+  },
+});
+
+const showFailed = (write: QueuedWrite) =>
+  toast.error(`${write.label} was not saved`, {
+    id: write.id,
+    description: write.error || 'The change was rejected. Retry, or discard it to keep the saved data.',
+    duration: Infinity,
+    action: { label: 'Retry', onClick: () => writeQueue.retry(write.id) },
+    cancel: { label: 'Discard', onClick: () => writeQueue.discard(write.id) },
+  });
+
+/**
+ * Reports transfer writes through the Toaster: applied with Undo, queued while offline,
+ * synced once confirmed and failed with Retry. Each write keeps one toast that moves
+ * through those states; conflicts are left to WriteConflictDialog.
+ */
+export const WriteQueueToasts = () => {
+  const { user } = useAuth();
+  const uid = user?.uid;
+
+  // Writes left over from the signed-in user's earlier visit, reported once their session is back
+  useEffect(() => {
+    if (!uid) return;
+    const leftover = writeQueue.get();
+    leftover.filter((write) => write.state === 'failed').forEach(showFailed);
+    // The queue may already be sending them by the time this runs
+    const waiting = leftover.filter((write) => write.state === 'pending' || write.state === 'syncing').length;
+    if (waiting) {
+      toast(`${waiting} unsaved ${waiting === 1 ? 'change' : 'changes'} from your last visit`, {
+        description: navigator.onLine ? 'Syncing now.' : 'They will sync when you are back online.',
+      });
+    }
+  }, [uid]);
+
+  useEffect(() => {
+    return writeQueue.onEvent((event) => {
+      const { write } = event;
+      switch (event.type) {
+        case 'applied':
+          // Without an inverse the change can only be undone before it is sent, so no Undo is offered
+          toast.success(write.label, {
+            id: write.id,
+            duration: UNDO_DURATION_MS,
+            action: write.inverse ? undoAction(write) : undefined,
+          });
+          break;
+        case 'queued':
+          toast(write.label, {
+            id: write.id,
+            description: 'You are offline. The change is queued and will sync when you reconnect.',
+            duration: UNDO_DURATION_MS,
+            action: undoAction(write),
+          });
+          break;
+        case 'synced':
+          // Online writes already showed as applied; only confirm the ones that waited
+          if (write.offline) toast.success(write.label, { id: write.id, description: 'Synced.' });
+          break;
+        case 'failed':
+          showFailed(write);
+          break;
+        case 'conflict':
+          // WriteConflictDialog takes over
+          toast.dismiss(write.id);
+          break;
+        case 'undone':
+          if (event.reverted) toast.dismiss(write.id);
+          else toast(`${write.label} undone`, { id: write.id, description: 'Nothing was saved.' });
+          break;
+      }
+    });
+  }, []);
+
+  return null;
+};
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState } from 'react';
+import { bomRepository } from '@/lib/repository';
+import { MAX_ATTACHMENT_BYTES } from '@/lib/attachments';
+import { useAuth } from '@/hooks/useAuth';
+import { AttachmentCategory, PartAttachment } from '@/types/bom';
+
+interface UseAttachmentsResult {
+  attachments: PartAttachment[];
+  loading: boolean;
+  error: string | null;
+  /** Upload progress between 0 and 1, or null when idle */
+  progress: number | null;
+  canUpload: boolean;
+  canDelete: (attachment: PartAttachment) => boolean;
+  upload: (file: File, category: AttachmentCategory) => Promise<boolean>;
+  remove: (attachment: PartAttachment) => Promise<boolean>;
+}
+
+// Storage has no live listeners, so the list is reloaded after each change
+export const useAttachments = (componentMaterial: string | null): UseAttachmentsResult => {
+  const { user, can } = useAuth();
+  const [attachments, setAttachments] = useState<PartAttachment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!componentMaterial) {
+      setAttachments([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      setAttachments(await bomRepository.listAttachments(componentMaterial));
+    } catch (err) {
+      console.error('Error listing attachments:', err);
+      setError('Failed to load attachments');
+    } finally {
+      setLoading(false);
+    }
+  }, [componentMaterial]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Uploaders may delete their own files and admins any file; storage.rules enforce the same
+  const canDelete = (attachment: PartAttachment) =>
+    can('manageAttachments') || (can('attachFiles') && attachment.uploadedById === user?.uid);
+
+  const upload = async (file: File, category: AttachmentCategory) => {
+    if (!user || !can('attachFiles') || !componentMaterial) {
+      console.warn('Upload rejected: the current user cannot attach files');
+      return false;
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      console.warn(`Upload rejected: ${file.name} is larger than the attachment limit`);
+      return false;
+    }
+
+    setProgress(0);
+    try {
+      await bomRepository.uploadAttachment(
+        componentMaterial,
+        { file, category },
+        { uid: user.uid, name: user.displayName },
+        setProgress
+      );
+      await reload();
+      return true;
+    } catch (err) {
+      console.error('Error uploading attachment:', err);
+      return false;
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const remove = async (attachment: PartAttachment) => {
+    if (!componentMaterial || !canDelete(attachment)) return false;
+
+    try {
+      await bomRepository.deleteAttachment(componentMaterial, attachment.id);
+      await reload();
+      return true;
+    } catch (err) {
+      console.error('Error deleting attachment:', err);
+      return false;
+    }
+  };
+
+  return {
+    attachments,
+    loading,
+    error,
+    progress,
+    canUpload: can('attachFiles'),
+    canDelete,
+    upload,
+    remove,
+  };
+};
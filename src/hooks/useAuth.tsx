@@ -0,0 +1,59 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from 'react';
+import { authService, AuthUser, UserRole } from '@/lib/auth';
+import { hasPermission, Permission } from '@/lib/permissions';
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  role: UserRole;
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [role, setRole] = useState<UserRole>('viewer');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(
+    () =>
+      authService.subscribe((nextUser) => {
+        setUser(nextUser);
+        if (!nextUser) {
+          setRole('viewer');
+          setLoading(false);
+        }
+      }),
+    []
+  );
+
+  useEffect(() => {
+    if (!user) return;
+    return authService.subscribeRole(user.uid, (nextRole) => {
+      setRole(nextRole);
+      setLoading(false);
+    });
+  }, [user]);
+
+  // Signed-out visitors are treated as viewers
+  const can = useCallback((permission: Permission) => !!user && hasPermission(role, permission), [role, user]);
+
+  return (
+    <AuthContext.Provider
+      value={{ user, role, loading, signIn: authService.signIn, signOut: authService.signOut, can }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -1,65 +1,91 @@
-import { useState, useEffect } from 'react';
-import { ref, onValue, update, off } from 'firebase/database';
-import { database, getComponentImageUrl } from '@/lib/firebase';
-import { BomItem, TransferStatus, SortField, SortDirection, KanbanFilter } from '@/types/bom';
+import { useState, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { bomRepository, ImportChange, PartUpdate, StatusChange, TransferFields, WriteActor } from '@/lib/repository';
+import { applyBomChanges, applyPartUpdates } from '@/lib/bomRecord';
+import { useAuth } from '@/hooks/useAuth';
+import { canHaveSupplier } from '@/lib/suppliers';
+import { evaluateFieldEdit, evaluateTransition, TransitionInput } from '@/lib/transferPolicy';
+import { writeQueue } from '@/lib/writeQueue';
+import { BomItem, CurrencyCode, TransferStatus, SortField, SortDirection, KanbanFilter } from '@/types/bom';
+
+/** Changes applied to every selected part; unset fields are left untouched */
+export interface BulkPatch {
+  status?: TransferStatus;
+  plannedStart?: string | null;
+  expectedCompletion?: string | null;
+  reason?: string;
+  brand?: string;
+  /** `null` clears the assignment */
+  supplierId?: string | null;
+  /** `null` clears the quote */
+  quotePrice?: number | null;
+  quoteCurrency?: CurrencyCode;
+  note?: string;
+}
+
+/** Outcome of a write request; `reasons` say why it was rejected before anything was queued */
+export interface WriteResult {
+  success: boolean;
+  reasons: string[];
+}
+
+export interface BulkUpdateResult extends WriteResult {
+  updated: string[];
+  /** Parts left out because a transition rule or the supplier rule blocked the change */
+  skipped: { componentMaterial: string; reasons: string[] }[];
+}
 
 interface UseBomDataResult {
   bomItems: BomItem[];
   loading: boolean;
   error: string | null;
-  updateStatus: (componentMaterial: string, status: TransferStatus) => Promise<boolean>;
-  updateExpectedCompletion: (componentMaterial: string, dateISO: string | null) => Promise<boolean>;
+  /** Writes resolve unsuccessful with reasons when rejected up front; the toaster reports how queued ones end */
+  updateStatus: (componentMaterial: string, status: TransferStatus, input?: TransitionInput) => Promise<WriteResult>;
+  updateExpectedCompletion: (componentMaterial: string, dateISO: string | null) => Promise<WriteResult>;
   updateNotToTransferDetails: (
     componentMaterial: string,
     reason: string,
     brand: string
-  ) => Promise<boolean>;
-  updatePlannedStart: (componentMaterial: string, dateISO: string | null) => Promise<boolean>;
+  ) => Promise<WriteResult>;
+  updatePlannedStart: (componentMaterial: string, dateISO: string | null) => Promise<WriteResult>;
+  bulkUpdate: (componentMaterials: string[], patch: BulkPatch) => Promise<BulkUpdateResult>;
+  applyImport: (changes: ImportChange[]) => Promise<boolean>;
 }
 
+const NOT_AN_EDITOR: WriteResult = {
+  success: false,
+  reasons: ['Sign in as an editor to change transfer details.'],
+};
+
 export const useBomData = (): UseBomDataResult => {
-  const [bomItems, setBomItems] = useState<BomItem[]>([]);
+  const [serverItems, setServerItems] = useState<BomItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { user, role, can } = useAuth();
+  const queuedWrites = useSyncExternalStore(writeQueue.subscribe, writeQueue.get);
+
+  // Writes still in the queue show as if they had landed; failed and conflicting ones stay hidden until resolved
+  const bomItems = useMemo(
+    () =>
+      applyPartUpdates(
+        serverItems,
+        queuedWrites
+          .filter((write) => write.state === 'pending' || write.state === 'syncing')
+          .flatMap((write) => write.updates)
+      ),
+    [serverItems, queuedWrites]
+  );
+
+  // Writes are attributed to the signed-in user; viewers get no actor and cannot write
+  const getWriteActor = (): WriteActor | null => {
+    if (!user || !can('editTransfer')) return null;
+    return { uid: user.uid, name: user.displayName, role };
+  };
 
   useEffect(() => {
-    const bomRef = ref(database, 'bom_summary');
-    
-    const unsubscribe = onValue(
-      bomRef,
-      async (snapshot) => {
+    return bomRepository.subscribe(
+      (changes) => {
         try {
-          const data = snapshot.val();
-          if (data) {
-            const items: BomItem[] = await Promise.all(
-              Object.keys(data).map(async (key) => {
-                const item = data[key];
-                
-                // Try to get image URL for this component
-                const imageUrl = await getComponentImageUrl(key);
-                
-                return {
-                  Component_Material: key,
-                  Description_EN: item.Description_EN || '',
-                  Kanban_Flag: item.Kanban_Flag || '',
-                  Latest_Component_Date: item.Latest_Component_Date || '',
-                  Standard_Price: parseFloat(item.Standard_Price) || 0,
-                  Total_Qty: parseInt(item.Total_Qty) || 0,
-                  Value: (parseFloat(item.Standard_Price) || 0) * (parseInt(item.Total_Qty) || 0),
-                  Transfer_Status: item.Transfer_Status || 'Not Start',
-                  Status_UpdatedAt: item.Status_UpdatedAt || '',
-                  imageUrl: imageUrl || undefined,
-                  Expected_Completion: item.Expected_Completion || '',
-                  NotToTransferReason: item.NotToTransferReason || '',
-                  Brand: item.Brand || '',
-                  Planned_Start: item.Planned_Start || '',
-                };
-              })
-            );
-            setBomItems(items);
-          } else {
-            setBomItems([]);
-          }
+          setServerItems((prev) => applyBomChanges(prev, changes));
           setLoading(false);
         } catch (err) {
           console.error('Error processing data:', err);
@@ -68,73 +94,279 @@ export const useBomData = (): UseBomDataResult => {
         }
       },
       (err) => {
-        console.error('Firebase error:', err);
-        setError('Failed to fetch data from Firebase');
+        console.error('Subscription error:', err);
+        setError('Failed to fetch BoM data');
         setLoading(false);
       }
     );
-
-    return () => off(bomRef, 'value', unsubscribe);
   }, []);
 
-  const updateStatus = async (componentMaterial: string, status: TransferStatus): Promise<boolean> => {
-    try {
-      const updates = {
-        [`bom_summary/${componentMaterial}/Transfer_Status`]: status,
-        [`bom_summary/${componentMaterial}/Status_UpdatedAt`]: new Date().toISOString(),
-      };
-      
-      await update(ref(database), updates);
-      return true;
-    } catch (err) {
-      console.error('Error updating status:', err);
-      return false;
+  // Edits are checked against the revision on screen, queued writes included
+  const revisionOf = (componentMaterial: string) =>
+    bomItems.find((item) => item.Component_Material === componentMaterial)?.Revision;
+
+  // Restores what each update touches; undefined when a status change could not be reversed
+  const buildInverse = (updates: PartUpdate[]): PartUpdate[] | undefined => {
+    const itemsByMaterial = new Map(bomItems.map((item) => [item.Component_Material, item]));
+    const inverse: PartUpdate[] = [];
+
+    for (const { componentMaterial, fields, status } of updates) {
+      const current = itemsByMaterial.get(componentMaterial);
+      if (!current) return undefined;
+
+      const restored = Object.fromEntries(
+        Object.keys({ ...fields, ...status?.details }).map((field) => [field, current[field as keyof BomItem] || null])
+      ) as TransferFields;
+      // The undo runs after the original landed, one revision later
+      const expectedRevision = current.Revision + 1;
+      if (!status) {
+        inverse.push({ componentMaterial, fields: restored, expectedRevision });
+        continue;
+      }
+
+      const result = evaluateTransition({
+        item: current,
+        from: status.to,
+        to: status.from,
+        input: {
+          note: 'Undone',
+          expectedCompletion: current.Expected_Completion || null,
+          reason: current.NotToTransferReason,
+          brand: current.Brand,
+        },
+        canRevertFinished: can('revertFinished'),
+      });
+      if (!result.allowed) return undefined;
+      inverse.push({
+        componentMaterial,
+        fields: restored,
+        status: { from: status.to, to: status.from, at: status.at, note: 'Undone' },
+        expectedRevision,
+      });
     }
+
+    return inverse;
   };
 
-  const updateExpectedCompletion = async (componentMaterial: string, dateISO: string | null): Promise<boolean> => {
-    try {
-      const updates = {
-        [`bom_summary/${componentMaterial}/Expected_Completion`]: dateISO || null,
-      };
+  // Every transfer write shows at once and is sent, retried and undone through the write queue
+  const queueWrite = (label: string, updates: PartUpdate[], actor: WriteActor): WriteResult => {
+    writeQueue.enqueue({ label, updates, inverse: buildInverse(updates), actor });
+    return { success: true, reasons: [] };
+  };
 
-      await update(ref(database), updates);
-      return true;
-    } catch (err) {
-      console.error('Error updating expected completion:', err);
-      return false;
+  const updateStatus = async (
+    componentMaterial: string,
+    status: TransferStatus,
+    input: TransitionInput = {}
+  ): Promise<WriteResult> => {
+    const actor = getWriteActor();
+    if (!actor) return NOT_AN_EDITOR;
+
+    const current = bomItems.find((item) => item.Component_Material === componentMaterial);
+    const from = current?.Transfer_Status || 'Not Start';
+    const result = evaluateTransition({
+      item: current ?? {},
+      from,
+      to: status,
+      input,
+      canRevertFinished: can('revertFinished'),
+    });
+    if (!result.allowed) {
+      return { success: false, reasons: result.violations.map((rule) => rule.message) };
     }
+
+    const details: StatusChange['details'] = {};
+    if (input.expectedCompletion !== undefined) details.Expected_Completion = input.expectedCompletion;
+    if (input.reason !== undefined) details.NotToTransferReason = input.reason.trim();
+    if (input.brand !== undefined) details.Brand = input.brand.trim();
+    if (current?.Supplier_Id && !canHaveSupplier(status)) details.Supplier_Id = null;
+
+    return queueWrite(
+      `${componentMaterial} moved to ${status}`,
+      [
+        {
+          componentMaterial,
+          status: { from, to: status, at: new Date().toISOString(), note: input.note?.trim() || undefined, details },
+          expectedRevision: current?.Revision,
+        },
+      ],
+      actor
+    );
   };
 
-  const updatePlannedStart = async (componentMaterial: string, dateISO: string | null): Promise<boolean> => {
-    try {
-      const updates = {
-        [`bom_summary/${componentMaterial}/Planned_Start`]: dateISO || null,
-      };
+  const updateExpectedCompletion = async (componentMaterial: string, dateISO: string | null): Promise<WriteResult> => {
+    const actor = getWriteActor();
+    if (!actor) return NOT_AN_EDITOR;
 
-      await update(ref(database), updates);
-      return true;
-    } catch (err) {
-      console.error('Error updating planned start:', err);
-      return false;
+    const current = bomItems.find((item) => item.Component_Material === componentMaterial);
+    const result = evaluateFieldEdit({
+      item: current ?? {},
+      status: current?.Transfer_Status || 'Not Start',
+      input: { expectedCompletion: dateISO || null },
+    });
+    if (!result.allowed) {
+      return { success: false, reasons: result.violations.map((rule) => rule.message) };
     }
+
+    return queueWrite(
+      `Expected completion ${dateISO ? 'updated' : 'cleared'} for ${componentMaterial}`,
+      [
+        {
+          componentMaterial,
+          fields: { Expected_Completion: dateISO || null },
+          expectedRevision: revisionOf(componentMaterial),
+        },
+      ],
+      actor
+    );
+  };
+
+  const updatePlannedStart = async (componentMaterial: string, dateISO: string | null): Promise<WriteResult> => {
+    const actor = getWriteActor();
+    if (!actor) return NOT_AN_EDITOR;
+
+    return queueWrite(
+      `Planned start ${dateISO ? 'updated' : 'cleared'} for ${componentMaterial}`,
+      [
+        {
+          componentMaterial,
+          fields: { Planned_Start: dateISO || null },
+          expectedRevision: revisionOf(componentMaterial),
+        },
+      ],
+      actor
+    );
   };
 
   const updateNotToTransferDetails = async (
     componentMaterial: string,
     reason: string,
     brand: string
-  ): Promise<boolean> => {
-    try {
-      const updates = {
-        [`bom_summary/${componentMaterial}/NotToTransferReason`]: reason,
-        [`bom_summary/${componentMaterial}/Brand`]: brand,
-      };
+  ): Promise<WriteResult> => {
+    const actor = getWriteActor();
+    if (!actor) return NOT_AN_EDITOR;
+
+    const current = bomItems.find((item) => item.Component_Material === componentMaterial);
+    // Fields are saved on blur, so leaving one unchanged should not write or toast
+    if (current && (current.NotToTransferReason || '') === reason && (current.Brand || '') === brand) {
+      return { success: true, reasons: [] };
+    }
+    const result = evaluateFieldEdit({
+      item: current ?? {},
+      status: current?.Transfer_Status || 'Not Start',
+      input: { reason, brand },
+    });
+    if (!result.allowed) {
+      return { success: false, reasons: result.violations.map((rule) => rule.message) };
+    }
+
+    return queueWrite(
+      `Not to Transfer details updated for ${componentMaterial}`,
+      [
+        {
+          componentMaterial,
+          fields: { NotToTransferReason: reason, Brand: brand },
+          expectedRevision: current?.Revision,
+        },
+      ],
+      actor
+    );
+  };
+
+  const bulkUpdate = async (componentMaterials: string[], patch: BulkPatch): Promise<BulkUpdateResult> => {
+    const actor = getWriteActor();
+    if (!actor) return { ...NOT_AN_EDITOR, updated: [], skipped: [] };
 
-      await update(ref(database), updates);
+    const fields: TransferFields = {};
+    if (patch.plannedStart !== undefined) fields.Planned_Start = patch.plannedStart;
+    if (patch.expectedCompletion !== undefined) fields.Expected_Completion = patch.expectedCompletion;
+    if (patch.reason !== undefined) fields.NotToTransferReason = patch.reason.trim();
+    if (patch.brand !== undefined) fields.Brand = patch.brand.trim();
+    if (patch.supplierId !== undefined) fields.Supplier_Id = patch.supplierId;
+    if (patch.quotePrice !== undefined) fields.Quote_Price = patch.quotePrice;
+    if (patch.quoteCurrency !== undefined) fields.Quote_Currency = patch.quoteCurrency;
+
+    const at = new Date().toISOString();
+    const updates: PartUpdate[] = [];
+    const skipped: BulkUpdateResult['skipped'] = [];
+    const itemsByMaterial = new Map(bomItems.map((item) => [item.Component_Material, item]));
+
+    componentMaterials.forEach((componentMaterial) => {
+      const current = itemsByMaterial.get(componentMaterial);
+      if (!current) return;
+
+      const from = current.Transfer_Status || 'Not Start';
+      const to = patch.status ?? from;
+      if (patch.supplierId && !canHaveSupplier(to)) {
+        skipped.push({
+          componentMaterial,
+          reasons: ['Only In Progress or Finished parts can be assigned to a supplier.'],
+        });
+        return;
+      }
+
+      if (!patch.status || patch.status === from) {
+        // Fields the part's status requires cannot be cleared without moving it
+        const fieldResult = evaluateFieldEdit({
+          item: current,
+          status: from,
+          input: { expectedCompletion: patch.expectedCompletion, reason: patch.reason, brand: patch.brand },
+        });
+        if (!fieldResult.allowed) {
+          skipped.push({ componentMaterial, reasons: fieldResult.violations.map((rule) => rule.message) });
+          return;
+        }
+        updates.push({ componentMaterial, fields, expectedRevision: current.Revision });
+        return;
+      }
+
+      // Fields from the same bulk action count towards the transition rules
+      const result = evaluateTransition({
+        item: current,
+        from,
+        to: patch.status,
+        input: {
+          note: patch.note,
+          expectedCompletion: patch.expectedCompletion,
+          reason: patch.reason,
+          brand: patch.brand,
+        },
+        canRevertFinished: can('revertFinished'),
+      });
+      if (!result.allowed) {
+        skipped.push({ componentMaterial, reasons: result.violations.map((rule) => rule.message) });
+        return;
+      }
+
+      // Moving back out of the supplier statuses releases the assignment
+      const released = current.Supplier_Id && !canHaveSupplier(to) ? { Supplier_Id: null } : {};
+      updates.push({
+        componentMaterial,
+        fields: { ...fields, ...released },
+        status: { from, to: patch.status, at, note: patch.note?.trim() || undefined },
+        expectedRevision: current.Revision,
+      });
+    });
+
+    if (!updates.length) return { success: true, reasons: [], updated: [], skipped };
+
+    const label =
+      updates.length === 1
+        ? `${updates[0].componentMaterial} ${patch.status ? `moved to ${patch.status}` : 'updated'}`
+        : `${updates.length} parts ${patch.status ? `moved to ${patch.status}` : 'updated'}`;
+    queueWrite(label, updates, actor);
+    return { success: true, reasons: [], updated: updates.map((partUpdate) => partUpdate.componentMaterial), skipped };
+  };
+
+  const applyImport = async (changes: ImportChange[]): Promise<boolean> => {
+    const actor = getWriteActor();
+    if (!actor || !can('importBom')) return false;
+
+    try {
+      await bomRepository.applyImport(changes, actor);
       return true;
     } catch (err) {
-      console.error('Error updating not-to-transfer details:', err);
+      console.error('Error applying import:', err);
       return false;
     }
   };
@@ -147,6 +379,8 @@ export const useBomData = (): UseBomDataResult => {
     updateExpectedCompletion,
     updateNotToTransferDetails,
     updatePlannedStart,
+    bulkUpdate,
+    applyImport,
   };
 };
 
@@ -172,9 +406,9 @@ export const useFilteredAndSortedBom = (
 
     // Apply Kanban filter
     if (kanbanFilter === 'kanban') {
-      filtered = filtered.filter((item) => item.Kanban_Flag.toLowerCase() === 'kanban');
+      filtered = filtered.filter((item) => item.Is_Kanban);
     } else if (kanbanFilter === 'non-kanban') {
-      filtered = filtered.filter((item) => item.Kanban_Flag.toLowerCase() !== 'kanban');
+      filtered = filtered.filter((item) => !item.Is_Kanban);
     }
 
     // Apply sorting
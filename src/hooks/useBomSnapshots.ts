@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { bomRepository } from '@/lib/repository';
+import { mapSnapshotRecords } from '@/lib/bomRecord';
+import { buildBomSnapshot, snapshotDate } from '@/lib/snapshots';
+import { BomItem, BomSnapshot } from '@/types/bom';
+
+interface UseBomSnapshotsResult {
+  snapshots: BomSnapshot[];
+  loading: boolean;
+  error: string | null;
+}
+
+export const useBomSnapshots = (from: string, to: string): UseBomSnapshotsResult => {
+  const [snapshots, setSnapshots] = useState<BomSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+
+    return bomRepository.subscribeSnapshots(
+      { from, to },
+      (data) => {
+        setSnapshots(mapSnapshotRecords(data));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Snapshot subscription error:', err);
+        setError('Failed to load KPI snapshots');
+        setLoading(false);
+      }
+    );
+  }, [from, to]);
+
+  return { snapshots, loading, error };
+};
+
+// Date of the last snapshot attempt in this session, so re-renders never write twice
+let attemptedDate: string | null = null;
+
+/** Records today's KPI snapshot once the parts have loaded; later calls the same day are no-ops */
+export const useDailySnapshot = (bomItems: BomItem[], enabled: boolean) => {
+  useEffect(() => {
+    const today = snapshotDate();
+    if (!enabled || !bomItems.length || attemptedDate === today) return;
+    attemptedDate = today;
+
+    const { date, ...snapshot } = buildBomSnapshot(bomItems);
+    bomRepository.saveDailySnapshot(date, snapshot).catch((err) => {
+      console.error('Error saving KPI snapshot:', err);
+      attemptedDate = null;
+    });
+  }, [bomItems, enabled]);
+};
@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import { bomRepository, WriteActor } from '@/lib/repository';
+import { mapCommentMeta, mapCommentRecords } from '@/lib/bomRecord';
+import { useAuth } from '@/hooks/useAuth';
+import { BomComment, CommentMeta } from '@/types/bom';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+interface UseCommentsResult {
+  comments: BomComment[];
+  loading: boolean;
+  error: string | null;
+  currentUserId: string | null;
+  canComment: boolean;
+  addComment: (text: string) => Promise<boolean>;
+  updateComment: (commentId: string, text: string) => Promise<boolean>;
+  deleteComment: (commentId: string) => Promise<boolean>;
+}
+
+export const useComments = (componentMaterial: string | null): UseCommentsResult => {
+  const { user, can } = useAuth();
+  const [comments, setComments] = useState<BomComment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!componentMaterial) {
+      setComments([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    return bomRepository.subscribeComments(
+      componentMaterial,
+      (data) => {
+        setComments(mapCommentRecords(data));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Comment subscription error:', err);
+        setError('Failed to load comments');
+        setLoading(false);
+      }
+    );
+  }, [componentMaterial]);
+
+  const getCommentActor = (): WriteActor | null => {
+    if (!user || !can('comment')) {
+      console.warn('Comment rejected: sign in to take part in discussions');
+      return null;
+    }
+    return { uid: user.uid, name: user.displayName };
+  };
+
+  const normalize = (text: string) => {
+    const trimmed = text.trim();
+    return trimmed && trimmed.length <= MAX_COMMENT_LENGTH ? trimmed : null;
+  };
+
+  const addComment = async (text: string) => {
+    const actor = getCommentActor();
+    const body = normalize(text);
+    if (!actor || !componentMaterial || !body) return false;
+
+    try {
+      await bomRepository.addComment(componentMaterial, body, actor);
+      return true;
+    } catch (err) {
+      console.error('Error adding comment:', err);
+      return false;
+    }
+  };
+
+  // Authors may only change their own comments; the database rules enforce the same
+  const isOwn = (commentId: string, actor: WriteActor) =>
+    comments.some((comment) => comment.id === commentId && comment.authorId === actor.uid);
+
+  const updateComment = async (commentId: string, text: string) => {
+    const actor = getCommentActor();
+    const body = normalize(text);
+    if (!actor || !componentMaterial || !body || !isOwn(commentId, actor)) return false;
+
+    try {
+      await bomRepository.updateComment(componentMaterial, commentId, body, actor);
+      return true;
+    } catch (err) {
+      console.error('Error updating comment:', err);
+      return false;
+    }
+  };
+
+  const deleteComment = async (commentId: string) => {
+    const actor = getCommentActor();
+    if (!actor || !componentMaterial || !isOwn(commentId, actor)) return false;
+
+    try {
+      await bomRepository.deleteComment(componentMaterial, commentId, actor);
+      return true;
+    } catch (err) {
+      console.error('Error deleting comment:', err);
+      return false;
+    }
+  };
+
+  return {
+    comments,
+    loading,
+    error,
+    currentUserId: user?.uid ?? null,
+    canComment: can('comment'),
+    addComment,
+    updateComment,
+    deleteComment,
+  };
+};
+
+/** Comment counts and last activity for every discussed part, keyed by material */
+export const useCommentMeta = () => {
+  const [commentMeta, setCommentMeta] = useState<Record<string, CommentMeta>>({});
+
+  useEffect(
+    () =>
+      bomRepository.subscribeCommentMeta(
+        (data) => setCommentMeta(mapCommentMeta(data)),
+        (err) => console.error('Comment meta subscription error:', err)
+      ),
+    []
+  );
+
+  return commentMeta;
+};
@@ -0,0 +1,14 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { imageResolver } from '@/lib/imageResolver';
+
+/** Image URL for a part; `undefined` while the lookup is pending, `null` when there is none */
+export const useComponentImage = (componentMaterial: string) => {
+  const url = useSyncExternalStore(imageResolver.subscribe, () => imageResolver.peek(componentMaterial));
+
+  // Also asks again when a cached answer expires while the image is on screen
+  useEffect(() => {
+    if (url === undefined) imageResolver.request(componentMaterial);
+  }, [componentMaterial, url]);
+
+  return url;
+};
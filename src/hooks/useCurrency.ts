@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { bomRepository, WriteActor } from '@/lib/repository';
+import { mapExchangeRateRecords } from '@/lib/bomRecord';
+import { convertCurrency, formatMoney, MoneyFormatOptions } from '@/lib/currency';
+import { useAuth } from '@/hooks/useAuth';
+import { useSettings } from '@/hooks/useSettings';
+import { CurrencyCode, ExchangeRate } from '@/types/bom';
+
+export type ExchangeRateFields = Omit<ExchangeRate, 'id'>;
+
+export const useExchangeRates = () => {
+  const { user, can } = useAuth();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(
+    () =>
+      bomRepository.subscribeExchangeRates(
+        (data) => {
+          setRates(mapExchangeRateRecords(data));
+          setLoading(false);
+        },
+        (err) => {
+          console.error('Exchange rate subscription error:', err);
+          setError('Failed to load exchange rates');
+          setLoading(false);
+        }
+      ),
+    []
+  );
+
+  const getRateActor = (): WriteActor | null => {
+    if (!user || !can('manageExchangeRates')) {
+      console.warn('Write rejected: the current user cannot maintain exchange rates');
+      return null;
+    }
+    return { uid: user.uid, name: user.displayName };
+  };
+
+  const saveRate = async (rateId: string | null, fields: ExchangeRateFields) => {
+    const actor = getRateActor();
+    if (!actor || fields.currency === 'AUD' || !(fields.audPerUnit > 0)) return false;
+
+    try {
+      await bomRepository.saveExchangeRate(rateId, fields, actor);
+      return true;
+    } catch (err) {
+      console.error('Error saving exchange rate:', err);
+      return false;
+    }
+  };
+
+  const deleteRate = async (rateId: string) => {
+    if (!getRateActor()) return false;
+
+    try {
+      await bomRepository.deleteExchangeRate(rateId);
+      return true;
+    } catch (err) {
+      console.error('Error deleting exchange rate:', err);
+      return false;
+    }
+  };
+
+  return { rates, loading, error, canManage: can('manageExchangeRates'), saveRate, deleteRate };
+};
+
+/**
+ * The display currency from settings with converters and a formatter for it.
+ * Amounts passed in are AUD, the currency prices are stored in; today's rates
+ * apply unless `fromAud` is given the date a historical amount was recorded on.
+ */
+export const useCurrency = () => {
+  const { settings } = useSettings();
+  const { rates } = useExchangeRates();
+  const currency = settings.displayCurrency;
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const fromAud = useCallback(
+    (amount: number, on = today) => convertCurrency(amount, 'AUD', currency, rates, on),
+    [currency, rates, today]
+  );
+
+  const toAud = useCallback(
+    (amount: number, from: CurrencyCode) => convertCurrency(amount, from, 'AUD', rates, today),
+    [rates, today]
+  );
+
+  const formatCurrency = useCallback(
+    (amountAud: number, options?: MoneyFormatOptions) => formatMoney(fromAud(amountAud), currency, options),
+    [currency, fromAud]
+  );
+
+  return useMemo(() => ({ currency, fromAud, toAud, formatCurrency }), [currency, fromAud, toAud, formatCurrency]);
+};
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { imageResolver } from '@/lib/imageResolver';
+import {
+  ImageUploadFailure,
+  ImageUploadResult,
+  isImageFile,
+  MAX_SOURCE_IMAGE_BYTES,
+  prepareComponentImage,
+} from '@/lib/imageUpload';
+import { bomRepository } from '@/lib/repository';
+
+// Storage reports refusals by the rules, including size and type limits, as unauthorized
+const toUploadFailure = (err: unknown): ImageUploadFailure => {
+  const code = (err as { code?: unknown } | null)?.code;
+  if (code === 'storage/unauthorized' || code === 'storage/unauthenticated') return 'rejected';
+  if (!navigator.onLine || code === 'storage/retry-limit-exceeded') return 'offline';
+  return 'error';
+};
+
+const failed = (failure: ImageUploadFailure): ImageUploadResult => ({ success: false, failure });
+
+export const useImageUpload = (componentMaterial: string) => {
+  const { user, can } = useAuth();
+  const [uploading, setUploading] = useState(false);
+
+  const upload = async (file: File): Promise<ImageUploadResult> => {
+    if (!user || !can('attachFiles')) return failed('not-allowed');
+    if (!isImageFile(file)) return failed('not-an-image');
+    if (file.size > MAX_SOURCE_IMAGE_BYTES) return failed('too-large');
+
+    setUploading(true);
+    try {
+      let image: Blob;
+      try {
+        image = await prepareComponentImage(file);
+      } catch {
+        return failed('unreadable');
+      }
+      const url = await bomRepository.uploadImage(componentMaterial, image, { uid: user.uid, name: user.displayName });
+      // Every list showing this part picks up the new image without a reload
+      imageResolver.set(componentMaterial, url);
+      return { success: true };
+    } catch (err) {
+      return failed(toUploadFailure(err));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return { uploading, canUpload: can('attachFiles'), upload };
+};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { settingsStore } from '@/lib/settings';
+
+export const useSettings = () => {
+  const settings = useSyncExternalStore(settingsStore.subscribe, settingsStore.get);
+  return { settings, updateSettings: settingsStore.update };
+};
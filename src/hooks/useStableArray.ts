@@ -0,0 +1,15 @@
+import { useRef } from 'react';
+
+const sameItems = <T,>(a: T[], b: T[]) => a.length === b.length && a.every((item, index) => item === b[index]);
+
+/**
+ * Returns the previously seen array while it holds the same items in the same order,
+ * so memos downstream of a derived list skip work when an unrelated item changes.
+ */
+export const useStableArray = <T,>(items: T[]): T[] => {
+  const ref = useRef(items);
+  if (ref.current !== items && !sameItems(ref.current, items)) {
+    ref.current = items;
+  }
+  return ref.current;
+};
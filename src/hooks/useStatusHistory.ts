@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { bomRepository } from '@/lib/repository';
+import { mapHistoryRecords } from '@/lib/bomRecord';
+import { StatusHistoryEntry } from '@/types/bom';
+
+interface UseStatusHistoryResult {
+  entries: StatusHistoryEntry[];
+  loading: boolean;
+  error: string | null;
+}
+
+export const useStatusHistory = (componentMaterial: string | null): UseStatusHistoryResult => {
+  const [entries, setEntries] = useState<StatusHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!componentMaterial) {
+      setEntries([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    return bomRepository.subscribeHistory(
+      componentMaterial,
+      (data) => {
+        setEntries(mapHistoryRecords(data));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('History subscription error:', err);
+        setError('Failed to load status history');
+        setLoading(false);
+      }
+    );
+  }, [componentMaterial]);
+
+  return { entries, loading, error };
+};
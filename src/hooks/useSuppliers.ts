@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { bomRepository, WriteActor } from '@/lib/repository';
+import { mapSupplierRecords } from '@/lib/bomRecord';
+import { useAuth } from '@/hooks/useAuth';
+import { Supplier } from '@/types/bom';
+
+export type SupplierFields = Omit<Supplier, 'id'>;
+
+interface UseSuppliersResult {
+  suppliers: Supplier[];
+  loading: boolean;
+  error: string | null;
+  canManage: boolean;
+  /** Creates a supplier when `supplierId` is null; resolves the id, or null on failure */
+  saveSupplier: (supplierId: string | null, fields: SupplierFields) => Promise<string | null>;
+  deleteSupplier: (supplierId: string, assignedParts: string[]) => Promise<boolean>;
+}
+
+export const useSuppliers = (): UseSuppliersResult => {
+  const { user, can } = useAuth();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(
+    () =>
+      bomRepository.subscribeSuppliers(
+        (data) => {
+          setSuppliers(mapSupplierRecords(data));
+          setLoading(false);
+        },
+        (err) => {
+          console.error('Supplier subscription error:', err);
+          setError('Failed to load suppliers');
+          setLoading(false);
+        }
+      ),
+    []
+  );
+
+  const getSupplierActor = (): WriteActor | null => {
+    if (!user || !can('manageSuppliers')) {
+      console.warn('Write rejected: the current user cannot manage suppliers');
+      return null;
+    }
+    return { uid: user.uid, name: user.displayName };
+  };
+
+  const saveSupplier = async (supplierId: string | null, fields: SupplierFields) => {
+    const actor = getSupplierActor();
+    if (!actor) return null;
+
+    try {
+      return await bomRepository.saveSupplier(
+        supplierId,
+        {
+          ...fields,
+          name: fields.name.trim(),
+          location: fields.location.trim(),
+          contact: fields.contact.trim(),
+        },
+        actor
+      );
+    } catch (err) {
+      console.error('Error saving supplier:', err);
+      return null;
+    }
+  };
+
+  const deleteSupplier = async (supplierId: string, assignedParts: string[]) => {
+    const actor = getSupplierActor();
+    if (!actor) return false;
+
+    try {
+      await bomRepository.deleteSupplier(supplierId, assignedParts, actor);
+      return true;
+    } catch (err) {
+      console.error('Error deleting supplier:', err);
+      return false;
+    }
+  };
+
+  return { suppliers, loading, error, canManage: can('manageSuppliers'), saveSupplier, deleteSupplier };
+};
@@ -0,0 +1,34 @@
+import { AttachmentCategory } from '@/types/bom';
+
+export const ATTACHMENT_CATEGORIES: { value: AttachmentCategory; label: string }[] = [
+  { value: 'drawing', label: 'Drawing' },
+  { value: 'quote', label: 'Supplier quote' },
+  { value: 'inspection', label: 'Inspection report' },
+  { value: 'certificate', label: 'Certificate' },
+  { value: 'other', label: 'Other' },
+];
+
+export const isAttachmentCategory = (value: string | undefined): value is AttachmentCategory =>
+  ATTACHMENT_CATEGORIES.some((category) => category.value === value);
+
+export const attachmentCategoryLabel = (category: AttachmentCategory) =>
+  ATTACHMENT_CATEGORIES.find((option) => option.value === category)?.label ?? category;
+
+// Mirrors the size limit in storage.rules
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+/** Storage folder holding a part's attachments */
+export const attachmentFolder = (componentMaterial: string) => `attachments/${componentMaterial}`;
+
+/**
+ * Prefixing the upload time keeps names unique within the folder, so a second
+ * "quote.pdf" does not replace the first.
+ */
+export const createAttachmentId = (fileName: string, now = new Date()) =>
+  `${now.getTime()}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
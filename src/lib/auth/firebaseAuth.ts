@@ -0,0 +1,49 @@
+import { onAuthStateChanged, signInWithEmailAndPassword, signOut } from 'firebase/auth';
+import { ref, onValue, off } from 'firebase/database';
+import { getFirebaseAuth, getFirebaseDatabase } from '@/lib/firebase';
+import { AuthService, UserRole } from './types';
+
+const ROLES: UserRole[] = ['viewer', 'editor', 'admin'];
+
+export const createFirebaseAuthService = (): AuthService => {
+  const auth = getFirebaseAuth();
+  const database = getFirebaseDatabase();
+
+  return {
+    subscribe: (onUser) =>
+      onAuthStateChanged(auth, (user) =>
+        onUser(
+          user
+            ? {
+                uid: user.uid,
+                email: user.email || '',
+                displayName: user.displayName || user.email || user.uid,
+              }
+            : null
+        )
+      ),
+
+    // Roles live at user_roles/{uid} and are maintained by admins in the console
+    subscribeRole: (uid, onRole) => {
+      const roleRef = ref(database, `user_roles/${uid}`);
+      const unsubscribe = onValue(
+        roleRef,
+        (snapshot) => {
+          const role = snapshot.val();
+          onRole(ROLES.includes(role) ? role : 'viewer');
+        },
+        (err) => {
+          console.error('Error reading user role:', err);
+          onRole('viewer');
+        }
+      );
+      return () => off(roleRef, 'value', unsubscribe);
+    },
+
+    signIn: async (email, password) => {
+      await signInWithEmailAndPassword(auth, email, password);
+    },
+
+    signOut: () => signOut(auth),
+  };
+};
@@ -0,0 +1,8 @@
+import { activeBackend } from '@/lib/repository';
+import { createFirebaseAuthService } from './firebaseAuth';
+import { createLocalAuthService } from './localAuth';
+
+// Auth follows the data backend so local demos never reach the live project
+export const authService = activeBackend === 'firebase' ? createFirebaseAuthService() : createLocalAuthService();
+
+export * from './types';
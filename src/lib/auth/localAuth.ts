@@ -0,0 +1,60 @@
+import { AuthService, AuthUser, UserRole } from './types';
+
+const SESSION_STORAGE_KEY = 'bom-transfer-local-user';
+
+/** Demo accounts for the local backends; any password is accepted */
+const DEMO_USERS: Record<string, UserRole> = {
+  'viewer@demo.local': 'viewer',
+  'editor@demo.local': 'editor',
+  'admin@demo.local': 'admin',
+};
+
+const toUser = (email: string): AuthUser => ({
+  uid: `local-${email.split('@')[0]}`,
+  email,
+  displayName: email.split('@')[0],
+});
+
+export const createLocalAuthService = (): AuthService => {
+  const listeners = new Set<(user: AuthUser | null) => void>();
+
+  const currentUser = (): AuthUser | null => {
+    const email = localStorage.getItem(SESSION_STORAGE_KEY);
+    return email && DEMO_USERS[email] ? toUser(email) : null;
+  };
+
+  const notify = () => {
+    const user = currentUser();
+    listeners.forEach((listener) => listener(user));
+  };
+
+  return {
+    subscribe: (onUser) => {
+      listeners.add(onUser);
+      queueMicrotask(() => onUser(currentUser()));
+      return () => {
+        listeners.delete(onUser);
+      };
+    },
+
+    subscribeRole: (uid, onRole) => {
+      const email = Object.keys(DEMO_USERS).find((candidate) => toUser(candidate).uid === uid);
+      queueMicrotask(() => onRole(email ? DEMO_USERS[email] : 'viewer'));
+      return () => undefined;
+    },
+
+    signIn: async (email) => {
+      const normalized = email.trim().toLowerCase();
+      if (!DEMO_USERS[normalized]) {
+        throw new Error(`Unknown demo account. Use one of: ${Object.keys(DEMO_USERS).join(', ')}`);
+      }
+      localStorage.setItem(SESSION_STORAGE_KEY, normalized);
+      notify();
+    },
+
+    signOut: async () => {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+      notify();
+    },
+  };
+};
@@ -0,0 +1,17 @@
+import { Unsubscribe } from '@/lib/repository';
+
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export interface AuthUser {
+  uid: string;
+  email: string;
+  displayName: string;
+}
+
+export interface AuthService {
+  subscribe: (onUser: (user: AuthUser | null) => void) => Unsubscribe;
+  /** Role assigned to a user; users without an assignment are viewers */
+  subscribeRole: (uid: string, onRole: (role: UserRole) => void) => Unsubscribe;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
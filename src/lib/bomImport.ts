@@ -0,0 +1,312 @@
+import { format, isValid, parse, parseISO } from 'date-fns';
+import { BomItem } from '@/types/bom';
+
+/** Master-data fields an SAP extract may refresh; transfer fields are never imported */
+export const IMPORT_FIELDS = [
+  'Description_EN',
+  'Kanban_Flag',
+  'Latest_Component_Date',
+  'Standard_Price',
+  'Total_Qty',
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+export type MappableField = 'Component_Material' | ImportField;
+
+export const MAPPABLE_FIELDS: { field: MappableField; label: string; required: boolean }[] = [
+  { field: 'Component_Material', label: 'Component material', required: true },
+  { field: 'Description_EN', label: 'Description (EN)', required: false },
+  { field: 'Kanban_Flag', label: 'Kanban flag', required: false },
+  { field: 'Latest_Component_Date', label: 'Latest component date', required: false },
+  { field: 'Standard_Price', label: 'Standard price', required: false },
+  { field: 'Total_Qty', label: 'Total quantity', required: false },
+];
+
+export type DecimalSeparator = '.' | ',';
+
+export interface ImportTable {
+  headers: string[];
+  rows: Record<string, string>[];
+  /**
+   * Decimal separator of numbers in a CSV; the other one groups thousands. `null` for
+   * XLSX, whose numeric cells are read as plain numbers.
+   */
+  decimalSeparator: DecimalSeparator | null;
+}
+
+/** Source column per field; `null` leaves the field out of the import */
+export type ColumnMapping = Record<MappableField, string | null>;
+
+export type ImportedRecord = Partial<Pick<BomItem, ImportField>>;
+
+export interface FieldDiff {
+  field: ImportField;
+  before: string | number;
+  after: string | number;
+}
+
+export interface ImportDiff {
+  componentMaterial: string;
+  kind: 'added' | 'removed' | 'changed';
+  record?: ImportedRecord;
+  changes: FieldDiff[];
+}
+
+const HEADER_ALIASES: Record<MappableField, string[]> = {
+  Component_Material: ['componentmaterial', 'component', 'material', 'materialnumber', 'matnr'],
+  Description_EN: ['descriptionen', 'description', 'materialdescription', 'maktx'],
+  Kanban_Flag: ['kanbanflag', 'kanban'],
+  Latest_Component_Date: ['latestcomponentdate', 'latestdate', 'lastpurchasedate', 'lastbuy'],
+  Standard_Price: ['standardprice', 'stdprice', 'price', 'stprs'],
+  Total_Qty: ['totalqty', 'totalquantity', 'quantity', 'qty'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// German-locale SAP exports separate with semicolons
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+};
+
+/** RFC 4180 style parsing: quoted fields, escaped quotes and embedded newlines */
+export const parseCsv = (text: string): ImportTable => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [headerRow = [], ...dataRows] = records.filter((row) => row.some((value) => value.trim()));
+  const headers = headerRow.map((header) => header.trim());
+  return {
+    headers,
+    // Semicolon-separated exports come from locales that write 1.234,56
+    decimalSeparator: delimiter === ';' ? ',' : '.',
+    rows: dataRows.map((row) => Object.fromEntries(headers.map((header, index) => [header, (row[index] ?? '').trim()]))),
+  };
+};
+
+const cellToString = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return format(value, 'yyyy-MM-dd');
+  if (typeof value === 'object') {
+    const cell = value as { text?: string; result?: unknown; richText?: { text: string }[] };
+    if (cell.richText) return cell.richText.map((part) => part.text).join('');
+    if (cell.result !== undefined) return cellToString(cell.result);
+    if (cell.text !== undefined) return cell.text;
+  }
+  return String(value).trim();
+};
+
+export const parseXlsx = async (data: ArrayBuffer): Promise<ImportTable> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return { headers: [], rows: [], decimalSeparator: null };
+
+  const headers: string[] = [];
+  sheet.getRow(1).eachCell((cell, column) => {
+    headers[column - 1] = cellToString(cell.value);
+  });
+
+  const rows: Record<string, string>[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    const values = headers.map((_header, index) => cellToString(row.getCell(index + 1).value));
+    if (values.some(Boolean)) {
+      rows.push(Object.fromEntries(headers.map((header, index) => [header, values[index]])));
+    }
+  });
+
+  return { headers: headers.filter(Boolean), rows, decimalSeparator: null };
+};
+
+export const parseImportFile = async (file: File): Promise<ImportTable> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+  if (/\.(csv|txt)$/i.test(file.name)) {
+    return parseCsv(await file.text());
+  }
+  throw new Error('Unsupported file type. Upload a .csv or .xlsx extract.');
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map((header) => ({ header, key: normalizeHeader(header) }));
+  const mapping = {} as ColumnMapping;
+
+  MAPPABLE_FIELDS.forEach(({ field }) => {
+    const exact = normalized.find(({ key }) => key === normalizeHeader(field));
+    const alias = HEADER_ALIASES[field]
+      .map((candidate) => normalized.find(({ key }) => key === candidate))
+      .find(Boolean);
+    mapping[field] = (exact ?? alias)?.header ?? null;
+  });
+
+  return mapping;
+};
+
+const readNumber = (value: string, decimal: DecimalSeparator): number | null => {
+  const group = decimal === ',' ? '\\.' : ',';
+  const point = decimal === ',' ? ',' : '\\.';
+  const grouped = new RegExp(`^-?\\d{1,3}(${group}\\d{3})*(${point}\\d+)?$`);
+  const plain = new RegExp(`^-?\\d+(${point}\\d+)?$`);
+  if (!grouped.test(value) && !plain.test(value)) return null;
+  return parseFloat(value.split(decimal === ',' ? '.' : ',').join('').replace(decimal, '.'));
+};
+
+/**
+ * Reads a number written with the source's separators, e.g. 1.234,56 from a German
+ * export. Cells that are not numbers, or that the other convention would read as a
+ * different number (1.234 is 1234 or 1.234), give `null` rather than a guess.
+ */
+const parseNumber = (value: string, decimal: DecimalSeparator | null): number | null => {
+  // SAP writes negative amounts with a trailing minus
+  const compact = value.replace(/[\s\u00a0']/g, '').replace(/^(.+)-$/, '-$1');
+  if (!compact) return 0;
+  if (!decimal) return /^-?\d+(\.\d+)?$/.test(compact) ? parseFloat(compact) : null;
+  const parsed = readNumber(compact, decimal);
+  const otherReading = readNumber(compact, decimal === ',' ? '.' : ',');
+  if (parsed === null || (otherReading !== null && otherReading !== parsed)) return null;
+  return parsed;
+};
+
+const DATE_FORMATS = ['dd.MM.yyyy', 'dd/MM/yyyy', 'yyyyMMdd', 'd/M/yyyy'];
+
+// SAP extracts use local date formats; store ISO dates like the rest of bom_summary
+const normalizeDate = (value: string) => {
+  if (!value) return '';
+  const iso = parseISO(value);
+  if (isValid(iso)) return format(iso, 'yyyy-MM-dd');
+  for (const pattern of DATE_FORMATS) {
+    const parsed = parse(value, pattern, new Date());
+    if (isValid(parsed)) return format(parsed, 'yyyy-MM-dd');
+  }
+  return value;
+};
+
+export const mapImportRows = (table: ImportTable, mapping: ColumnMapping) => {
+  const records = new Map<string, ImportedRecord>();
+  const errors: string[] = [];
+  const materialColumn = mapping.Component_Material;
+
+  if (!materialColumn) {
+    return { records, errors: ['Map a column to Component material to continue.'] };
+  }
+
+  table.rows.forEach((row, index) => {
+    const componentMaterial = (row[materialColumn] || '').trim();
+    if (!componentMaterial) {
+      errors.push(`Row ${index + 2}: missing component material`);
+      return;
+    }
+    if (/[.#$[\]/]/.test(componentMaterial)) {
+      errors.push(`Row ${index + 2}: "${componentMaterial}" contains characters that cannot be used as a key`);
+      return;
+    }
+    if (records.has(componentMaterial)) {
+      errors.push(`Row ${index + 2}: duplicate component material ${componentMaterial}, later row kept`);
+    }
+
+    const record: ImportedRecord = {};
+    const invalid: string[] = [];
+    IMPORT_FIELDS.forEach((field) => {
+      const column = mapping[field];
+      if (!column) return;
+      const raw = (row[column] || '').trim();
+      switch (field) {
+        case 'Standard_Price':
+        case 'Total_Qty': {
+          const parsed = parseNumber(raw, table.decimalSeparator);
+          if (parsed === null) {
+            invalid.push(`"${raw}" is not a clear number for ${column}`);
+            return;
+          }
+          record[field] = field === 'Total_Qty' ? Math.round(parsed) : parsed;
+          break;
+        }
+        case 'Latest_Component_Date':
+          record.Latest_Component_Date = normalizeDate(raw);
+          break;
+        default:
+          record[field] = raw;
+      }
+    });
+    if (invalid.length) {
+      errors.push(`Row ${index + 2}: ${invalid.join('; ')}, row skipped`);
+      return;
+    }
+    records.set(componentMaterial, record);
+  });
+
+  return { records, errors };
+};
+
+/** Added, removed and changed parts; only fields present in the import are compared */
+export const diffBomImport = (existing: BomItem[], incoming: Map<string, ImportedRecord>): ImportDiff[] => {
+  const diffs: ImportDiff[] = [];
+  const existingByMaterial = new Map(existing.map((item) => [item.Component_Material, item]));
+
+  incoming.forEach((record, componentMaterial) => {
+    const current = existingByMaterial.get(componentMaterial);
+    if (!current) {
+      diffs.push({
+        componentMaterial,
+        kind: 'added',
+        record,
+        changes: (Object.keys(record) as ImportField[]).map((field) => ({ field, before: '', after: record[field] ?? '' })),
+      });
+      return;
+    }
+
+    const changes = (Object.keys(record) as ImportField[])
+      .filter((field) => String(current[field] ?? '') !== String(record[field] ?? ''))
+      .map((field) => ({ field, before: current[field] ?? '', after: record[field] ?? '' }));
+    if (changes.length) {
+      diffs.push({ componentMaterial, kind: 'changed', record, changes });
+    }
+  });
+
+  existing.forEach((item) => {
+    if (!incoming.has(item.Component_Material)) {
+      diffs.push({ componentMaterial: item.Component_Material, kind: 'removed', changes: [] });
+    }
+  });
+
+  return diffs;
+};
@@ -0,0 +1,200 @@
+import {
+  BomComment,
+  BomItem,
+  BomSnapshot,
+  CommentMeta,
+  CurrencyCode,
+  ExchangeRate,
+  SnapshotTotals,
+  StatusHistoryEntry,
+  Supplier,
+} from '@/types/bom';
+import {
+  BomRecord,
+  BomRecordChange,
+  CommentMetaRecord,
+  CommentRecord,
+  ExchangeRateRecord,
+  PartUpdate,
+  SnapshotRecord,
+  StatusHistoryRecord,
+  SupplierRecord,
+} from '@/lib/repository';
+import { isCurrencyCode } from '@/lib/currency';
+
+// SAP extracts and imported sheets mark Kanban parts in several ways
+const KANBAN_FLAGS = ['kanban', 'y', 'yes', '1', 'true'];
+
+const isKanbanFlag = (flag: unknown) => KANBAN_FLAGS.includes(String(flag ?? '').trim().toLowerCase());
+
+export const mapBomRecord = (key: string, item: BomRecord): BomItem => ({
+  Component_Material: key,
+  Description_EN: item.Description_EN || '',
+  Kanban_Flag: item.Kanban_Flag || '',
+  Is_Kanban: isKanbanFlag(item.Kanban_Flag),
+  Latest_Component_Date: item.Latest_Component_Date || '',
+  Standard_Price: parseFloat(String(item.Standard_Price)) || 0,
+  Total_Qty: parseInt(String(item.Total_Qty)) || 0,
+  Value: (parseFloat(String(item.Standard_Price)) || 0) * (parseInt(String(item.Total_Qty)) || 0),
+  Transfer_Status: item.Transfer_Status || 'Not Start',
+  Status_UpdatedAt: item.Status_UpdatedAt || '',
+  Expected_Completion: item.Expected_Completion || '',
+  NotToTransferReason: item.NotToTransferReason || '',
+  Brand: item.Brand || '',
+  Planned_Start: item.Planned_Start || '',
+  Supplier_Id: item.Supplier_Id || '',
+  Quote_Price: parseFloat(String(item.Quote_Price)) || undefined,
+  Quote_Currency: isCurrencyCode(item.Quote_Currency) ? item.Quote_Currency : undefined,
+  Revision: parseInt(String(item.Revision)) || 0,
+  Updated_By: item.Updated_By || '',
+  Updated_At: item.Updated_At || '',
+});
+
+/**
+ * Patches a list with child-level changes. Untouched items keep their identity and
+ * the original list is returned when nothing changed.
+ */
+export const applyBomChanges = (items: BomItem[], changes: BomRecordChange[]): BomItem[] => {
+  if (!changes.length) return items;
+
+  const latest = new Map<string, BomRecordChange>();
+  changes.forEach((change) => latest.set(change.key, change));
+
+  const next: BomItem[] = [];
+  items.forEach((item) => {
+    const change = latest.get(item.Component_Material);
+    if (!change) {
+      next.push(item);
+      return;
+    }
+    latest.delete(item.Component_Material);
+    if (change.type !== 'removed') {
+      next.push(mapBomRecord(change.key, change.record));
+    }
+  });
+
+  latest.forEach((change) => {
+    if (change.type !== 'removed') {
+      next.push(mapBomRecord(change.key, change.record));
+    }
+  });
+
+  return next;
+};
+
+/**
+ * Shows writes that are still queued as if they had landed. Cleared fields are
+ * `null` in the update, which mapping turns back into empty values. The revision is
+ * the one each write will produce, so follow-up edits are checked against it.
+ */
+export const applyPartUpdates = (items: BomItem[], updates: PartUpdate[]): BomItem[] => {
+  if (!updates.length) return items;
+
+  const byMaterial = new Map<string, PartUpdate[]>();
+  updates.forEach((update) =>
+    byMaterial.set(update.componentMaterial, [...(byMaterial.get(update.componentMaterial) ?? []), update])
+  );
+
+  return items.map((item) => {
+    const partUpdates = byMaterial.get(item.Component_Material);
+    if (!partUpdates) return item;
+    const record = partUpdates.reduce<BomRecord>(
+      (current, { fields, status, expectedRevision }) =>
+        ({
+          ...current,
+          ...fields,
+          ...status?.details,
+          ...(status && { Transfer_Status: status.to, Status_UpdatedAt: status.at }),
+          ...(expectedRevision !== undefined && { Revision: expectedRevision + 1 }),
+        }) as BomRecord,
+      item
+    );
+    return mapBomRecord(item.Component_Material, record);
+  });
+};
+
+/** Maps history records newest first */
+export const mapHistoryRecords = (data: Record<string, StatusHistoryRecord>): StatusHistoryEntry[] =>
+  Object.keys(data)
+    .map((key) => ({
+      id: key,
+      from: data[key].from || 'Not Start',
+      to: data[key].to || 'Not Start',
+      at: data[key].at || '',
+      actor: data[key].actor || 'Unknown',
+      actorId: data[key].actorId || undefined,
+      note: data[key].note || undefined,
+    }))
+    .sort((a, b) => b.at.localeCompare(a.at));
+
+/** Maps exchange-rate records, newest effective date first; unknown currencies are dropped */
+export const mapExchangeRateRecords = (data: Record<string, ExchangeRateRecord>): ExchangeRate[] =>
+  Object.keys(data)
+    .filter((key) => isCurrencyCode(data[key].currency) && (parseFloat(String(data[key].audPerUnit)) || 0) > 0)
+    .map((key) => ({
+      id: key,
+      currency: data[key].currency as CurrencyCode,
+      audPerUnit: parseFloat(String(data[key].audPerUnit)),
+      effectiveFrom: data[key].effectiveFrom || '',
+    }))
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || a.currency.localeCompare(b.currency));
+
+/** Maps supplier records sorted by name */
+export const mapSupplierRecords = (data: Record<string, SupplierRecord>): Supplier[] =>
+  Object.keys(data)
+    .map((key) => ({
+      id: key,
+      name: data[key].name || key,
+      location: data[key].location || '',
+      contact: data[key].contact || '',
+      currency: isCurrencyCode(data[key].currency) ? data[key].currency : 'CNY',
+      leadTimeDays: parseInt(String(data[key].leadTimeDays)) || 0,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+/** Maps comment records oldest first, as a thread reads */
+export const mapCommentRecords = (data: Record<string, CommentRecord>): BomComment[] =>
+  Object.keys(data)
+    .map((key) => ({
+      id: key,
+      text: data[key].text || '',
+      author: data[key].author || 'Unknown',
+      authorId: data[key].authorId || '',
+      createdAt: data[key].createdAt || '',
+      updatedAt: data[key].updatedAt || undefined,
+    }))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export const mapCommentMeta = (data: Record<string, CommentMetaRecord>): Record<string, CommentMeta> =>
+  Object.fromEntries(
+    Object.entries(data)
+      .filter(([, meta]) => (meta.count || 0) > 0)
+      .map(([key, meta]) => [key, { count: meta.count || 0, lastCommentAt: meta.lastCommentAt || '' }])
+  );
+
+const mapTotals = (totals?: Partial<SnapshotTotals>): SnapshotTotals => ({
+  parts: totals?.parts || 0,
+  qty: totals?.qty || 0,
+  value: totals?.value || 0,
+});
+
+/** Maps snapshot records oldest first */
+export const mapSnapshotRecords = (data: Record<string, SnapshotRecord>): BomSnapshot[] =>
+  Object.keys(data)
+    .sort()
+    .map((date) => {
+      const record = data[date];
+      return {
+        date,
+        capturedAt: record.capturedAt || '',
+        statusTotals: {
+          'Not Start': mapTotals(record.statusTotals?.['Not Start']),
+          'In Progress': mapTotals(record.statusTotals?.['In Progress']),
+          Finished: mapTotals(record.statusTotals?.Finished),
+          'Not to Transfer': mapTotals(record.statusTotals?.['Not to Transfer']),
+        },
+        kanban: mapTotals(record.kanban),
+        nonKanban: mapTotals(record.nonKanban),
+        delayedPlans: record.delayedPlans || 0,
+      };
+    });
@@ -0,0 +1,63 @@
+import { CurrencyCode, ExchangeRate } from '@/types/bom';
+
+export const CURRENCIES: CurrencyCode[] = ['AUD', 'CNY', 'USD'];
+
+export const isCurrencyCode = (value: string | undefined): value is CurrencyCode =>
+  CURRENCIES.includes(value as CurrencyCode);
+
+/**
+ * Used until the rate table has an entry in effect for a currency. Standard_Price
+ * is held in AUD, so every rate is AUD per unit of the other currency.
+ */
+export const FALLBACK_AUD_RATES: Record<CurrencyCode, number> = {
+  AUD: 1,
+  CNY: 0.21,
+  USD: 1.52,
+};
+
+/** The rate in effect on `on` (yyyy-MM-dd): the latest entry that is not dated after it */
+export const audPerUnit = (rates: ExchangeRate[], currency: CurrencyCode, on: string) => {
+  if (currency === 'AUD') return 1;
+  const effective = rates
+    .filter((rate) => rate.currency === currency && rate.effectiveFrom <= on)
+    .reduce<ExchangeRate | null>(
+      (latest, rate) => (!latest || rate.effectiveFrom > latest.effectiveFrom ? rate : latest),
+      null
+    );
+  return effective?.audPerUnit ?? FALLBACK_AUD_RATES[currency];
+};
+
+export const convertCurrency = (
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  rates: ExchangeRate[],
+  on: string
+) => (from === to ? amount : (amount * audPerUnit(rates, from, on)) / audPerUnit(rates, to, on));
+
+export interface MoneyFormatOptions {
+  /** Decimal places; defaults to 0 */
+  fractionDigits?: number;
+  /** Short form such as "A$1.2M" */
+  compact?: boolean;
+}
+
+export const formatMoney = (
+  value: number,
+  currency: CurrencyCode,
+  { fractionDigits = 0, compact = false }: MoneyFormatOptions = {}
+) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    notation: compact ? 'compact' : 'standard',
+    minimumFractionDigits: compact ? 0 : fractionDigits,
+    maximumFractionDigits: compact ? 1 : fractionDigits,
+  }).format(value);
+
+/** Excel number formats with the symbol Intl uses for each currency */
+export const EXCEL_CURRENCY_FORMATS: Record<CurrencyCode, string> = {
+  AUD: '"A$"#,##0.00',
+  CNY: '"CN¥"#,##0.00',
+  USD: '"$"#,##0.00',
+};
@@ -0,0 +1,89 @@
+import { isValid, parseISO } from 'date-fns';
+import { BomItem, TransferStatus } from '@/types/bom';
+
+export const TRANSFER_STATUSES: TransferStatus[] = ['Not Start', 'In Progress', 'Finished', 'Not to Transfer'];
+
+export const isTransferStatus = (value: string | undefined): value is TransferStatus =>
+  TRANSFER_STATUSES.includes(value as TransferStatus);
+
+/**
+ * Where a record is fixed: master data comes from the SAP extract and is corrected
+ * by re-importing it, transfer fields are edited on the part page.
+ */
+export type DataQualityFix = 'master-data' | 'transfer';
+
+export interface DataQualityCheck {
+  id: string;
+  label: string;
+  /** How to resolve it, shown above the affected parts */
+  description: string;
+  fix: DataQualityFix;
+  isIssue: (item: BomItem) => boolean;
+  /** The offending value as stored */
+  detail: (item: BomItem) => string;
+}
+
+export interface DataQualityResult {
+  check: DataQualityCheck;
+  items: BomItem[];
+}
+
+// Mapping coerces unreadable prices and quantities to 0, so both show up here
+export const DATA_QUALITY_CHECKS: DataQualityCheck[] = [
+  {
+    id: 'price',
+    label: 'Zero or negative price',
+    description: 'Correct the standard price in SAP and re-import the extract; the part carries no value until then.',
+    fix: 'master-data',
+    isIssue: (item) => !(item.Standard_Price > 0),
+    detail: (item) => `Standard price ${item.Standard_Price}`,
+  },
+  {
+    id: 'quantity',
+    label: 'Zero quantity',
+    description: 'Check the total quantity in SAP and re-import the extract.',
+    fix: 'master-data',
+    isIssue: (item) => !(item.Total_Qty > 0),
+    detail: (item) => `Total quantity ${item.Total_Qty}`,
+  },
+  {
+    id: 'latest-date',
+    label: 'Unreadable latest component date',
+    description: 'The date is missing or not a date; re-import the extract with the date column mapped.',
+    fix: 'master-data',
+    isIssue: (item) => !item.Latest_Component_Date || !isValid(parseISO(item.Latest_Component_Date)),
+    detail: (item) => (item.Latest_Component_Date ? `"${item.Latest_Component_Date}"` : 'No date'),
+  },
+  {
+    id: 'status',
+    label: 'Unknown transfer status',
+    description: 'The stored status is not one the app knows; pick the right status on the part page.',
+    fix: 'transfer',
+    isIssue: (item) => !isTransferStatus(item.Transfer_Status),
+    detail: (item) => `Status "${item.Transfer_Status}"`,
+  },
+  {
+    id: 'expected-completion',
+    label: 'In Progress without expected completion',
+    description: 'Set the expected completion date so the part appears in the plan forecast.',
+    fix: 'transfer',
+    isIssue: (item) => item.Transfer_Status === 'In Progress' && !item.Expected_Completion,
+    detail: () => 'No expected completion',
+  },
+  {
+    id: 'not-to-transfer-reason',
+    label: 'Not to Transfer without a reason',
+    description: 'Record why the part stays in AU.',
+    fix: 'transfer',
+    isIssue: (item) => item.Transfer_Status === 'Not to Transfer' && !item.NotToTransferReason?.trim(),
+    detail: () => 'No reason given',
+  },
+];
+
+/** Every check with the parts failing it, in check order; checks without issues are kept with no items */
+export const findDataQualityIssues = (items: BomItem[]): DataQualityResult[] =>
+  DATA_QUALITY_CHECKS.map((check) => ({ check, items: items.filter(check.isIssue) }));
+
+/** Parts failing at least one check */
+export const countPartsWithIssues = (results: DataQualityResult[]) =>
+  new Set(results.flatMap((result) => result.items.map((item) => item.Component_Material))).size;
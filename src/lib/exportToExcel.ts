@@ -1,70 +1,235 @@
-import type { BomItem } from '@/types/bom';
+import type { Worksheet } from 'exceljs';
+import { format, isValid, parseISO } from 'date-fns';
+import { EXCEL_CURRENCY_FORMATS } from '@/lib/currency';
+import { isTransferStatus, TRANSFER_STATUSES } from '@/lib/dataQuality';
+import { imageResolver } from '@/lib/imageResolver';
+import { bomRepository } from '@/lib/repository';
+import type { BomItem, CurrencyCode } from '@/types/bom';
 
-const EXCEL_MIME_TYPE = 'application/vnd.ms-excel';
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
 
-const escapeHtml = (value: string) =>
-  value
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#39;');
+// Parts whose stored status the app does not know get their own sheet and summary row
+const OTHER_STATUS = 'Other status';
 
-const formatValue = (value: string | number | undefined | null) => {
-  if (value === undefined || value === null) {
-    return '';
-  }
+// Image lookups run alongside each other, this many at a time
+const IMAGE_LOOKUP_CONCURRENCY = 8;
 
-  if (typeof value === 'number') {
-    return Number.isFinite(value) ? value.toString() : '';
-  }
+const INTEGER_FORMAT = '#,##0';
+const DATE_FORMAT = 'yyyy-mm-dd';
+const MONTH_FORMAT = 'mmm yyyy';
+const TIMESTAMP_FORMAT = 'yyyy-mm-dd hh:mm';
+
+type CellValue = string | number | Date | { text: string; hyperlink: string } | null;
+
+interface ExportColumn {
+  header: string;
+  width: number;
+  numFmt?: string;
+  value: (item: BomItem, imageUrl: string | null) => CellValue;
+}
+
+// Excel has no time zones; shift local wall-clock time to UTC so cells show what the app shows.
+// Values that are not dates are written as they are stored rather than dropped.
+const toExcelDate = (value?: string): CellValue => {
+  if (!value) return null;
+  const parsed = parseISO(value);
+  if (!isValid(parsed)) return value;
+  return new Date(
+    Date.UTC(
+      parsed.getFullYear(),
+      parsed.getMonth(),
+      parsed.getDate(),
+      parsed.getHours(),
+      parsed.getMinutes(),
+      parsed.getSeconds()
+    )
+  );
+};
+
+/** Money columns are converted from AUD and labelled with the export currency */
+interface MoneyOptions {
+  currency: CurrencyCode;
+  fromAud: (amount: number) => number;
+}
 
-  return escapeHtml(value);
+const buildColumns = ({ currency, fromAud }: MoneyOptions): ExportColumn[] => [
+  { header: 'Component Material', width: 20, value: (item) => item.Component_Material },
+  { header: 'Description (EN)', width: 40, value: (item) => item.Description_EN },
+  { header: 'Brand', width: 16, value: (item) => item.Brand || null },
+  { header: 'Kanban', width: 10, value: (item) => (item.Is_Kanban ? 'Yes' : 'No') },
+  {
+    header: 'Latest Component Date',
+    width: 18,
+    numFmt: DATE_FORMAT,
+    value: (item) => toExcelDate(item.Latest_Component_Date),
+  },
+  {
+    header: `Standard Price (${currency})`,
+    width: 18,
+    numFmt: EXCEL_CURRENCY_FORMATS[currency],
+    value: (item) => fromAud(item.Standard_Price),
+  },
+  { header: 'Total Quantity', width: 14, numFmt: INTEGER_FORMAT, value: (item) => item.Total_Qty },
+  {
+    header: `Value (${currency})`,
+    width: 18,
+    numFmt: EXCEL_CURRENCY_FORMATS[currency],
+    value: (item) => fromAud(item.Value),
+  },
+  { header: 'Transfer Status', width: 16, value: (item) => item.Transfer_Status ?? 'Not Start' },
+  {
+    header: 'Status Updated At',
+    width: 18,
+    numFmt: TIMESTAMP_FORMAT,
+    value: (item) => toExcelDate(item.Status_UpdatedAt),
+  },
+  { header: 'Planned Start', width: 14, numFmt: MONTH_FORMAT, value: (item) => toExcelDate(item.Planned_Start) },
+  {
+    header: 'Expected Completion',
+    width: 18,
+    numFmt: MONTH_FORMAT,
+    value: (item) => toExcelDate(item.Expected_Completion),
+  },
+  { header: 'Not to Transfer Reason', width: 36, value: (item) => item.NotToTransferReason || null },
+  {
+    header: 'Image',
+    width: 12,
+    value: (_item, imageUrl) => (imageUrl ? { text: 'Open image', hyperlink: imageUrl } : null),
+  },
+];
+
+const styleHeader = (sheet: Worksheet, columnCount: number) => {
+  const header = sheet.getRow(1);
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF4F46E5' } };
+  header.alignment = { vertical: 'middle' };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columnCount } };
+};
+
+const addItemsSheet = (
+  sheet: Worksheet,
+  items: BomItem[],
+  imageUrls: Map<string, string | null>,
+  columns: ExportColumn[]
+) => {
+  sheet.columns = columns.map(({ header, width, numFmt }) => ({
+    header,
+    width,
+    style: numFmt ? { numFmt } : {},
+  }));
+  items.forEach((item) => {
+    const imageUrl = imageUrls.get(item.Component_Material) ?? null;
+    sheet.addRow(columns.map((column) => column.value(item, imageUrl)));
+  });
+  sheet.getColumn(columns.length).font = { color: { argb: 'FF4F46E5' }, underline: true };
+  styleHeader(sheet, columns.length);
+};
+
+type StatusGroup = readonly [status: string, items: BomItem[]];
+
+// Every item lands in exactly one group, so the sheets always add up to the summary total
+const groupByStatus = (items: BomItem[]): StatusGroup[] => {
+  const statusOf = (item: BomItem) => item.Transfer_Status || 'Not Start';
+  return [
+    ...TRANSFER_STATUSES.map((status) => [status, items.filter((item) => statusOf(item) === status)] as const),
+    [OTHER_STATUS, items.filter((item) => !isTransferStatus(statusOf(item)))] as const,
+  ];
 };
 
-export const exportBomItemsToExcel = (items: BomItem[]) => {
+const addSummarySheet = (
+  sheet: Worksheet,
+  items: BomItem[],
+  groups: StatusGroup[],
+  { currency, fromAud }: MoneyOptions
+) => {
+  const totalValue = fromAud(items.reduce((sum, item) => sum + item.Value, 0));
+  sheet.columns = [
+    { header: 'Transfer Status', width: 18 },
+    { header: 'Parts', width: 10, style: { numFmt: INTEGER_FORMAT } },
+    { header: `Value (${currency})`, width: 18, style: { numFmt: EXCEL_CURRENCY_FORMATS[currency] } },
+    { header: 'Share of Value', width: 16, style: { numFmt: '0.0%' } },
+  ];
+
+  groups.forEach(([status, statusItems]) => {
+    if (status === OTHER_STATUS && !statusItems.length) return;
+    const value = fromAud(statusItems.reduce((sum, item) => sum + item.Value, 0));
+    sheet.addRow([status, statusItems.length, value, totalValue > 0 ? value / totalValue : 0]);
+  });
+
+  const totalRow = sheet.addRow(['Total', items.length, totalValue, totalValue > 0 ? 1 : 0]);
+  totalRow.font = { bold: true };
+  styleHeader(sheet, 4);
+
+  sheet.addRow([]);
+  sheet.addRow(['Generated', toExcelDate(new Date().toISOString())]).getCell(2).numFmt = TIMESTAMP_FORMAT;
+};
+
+// Cached links cost nothing; the rest are looked up in parallel and cached for the lists too
+const resolveImageUrls = async (items: BomItem[]) => {
+  const urls = new Map<string, string | null>();
+  const pending: string[] = [];
+  items.forEach(({ Component_Material: componentMaterial }) => {
+    const cached = imageResolver.peek(componentMaterial);
+    if (cached === undefined) pending.push(componentMaterial);
+    else urls.set(componentMaterial, cached);
+  });
+
+  const worker = async () => {
+    for (let componentMaterial = pending.shift(); componentMaterial; componentMaterial = pending.shift()) {
+      // A failed lookup leaves the cell empty without caching the part as having no image
+      const url = await bomRepository.getImageUrl(componentMaterial).then(
+        (found) => {
+          imageResolver.set(componentMaterial, found);
+          return found;
+        },
+        () => null
+      );
+      urls.set(componentMaterial, url);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(IMAGE_LOOKUP_CONCURRENCY, pending.length) }, worker));
+  return urls;
+};
+
+interface ExportOptions extends Partial<MoneyOptions> {
+  /** Without extension; defaults to `bom-transfer-<date>` */
+  fileName?: string;
+}
+
+/**
+ * Writes a workbook with one sheet per transfer status among the items, parts with
+ * an unknown status on their own sheet, plus a summary sheet when they span more than one.
+ */
+export const exportBomItemsToExcel = async (
+  items: BomItem[],
+  { fileName, currency = 'AUD', fromAud = (amount) => amount }: ExportOptions = {}
+) => {
   if (!items.length) {
     return;
   }
 
-  const headers = [
-    'Component Material',
-    'Description (EN)',
-    'Kanban Flag',
-    'Latest Component Date',
-    'Standard Price',
-    'Total Quantity',
-    'Value',
-    'Transfer Status',
-    'Status Updated At',
-  ];
+  const [{ default: ExcelJS }, imageUrls] = await Promise.all([import('exceljs'), resolveImageUrls(items)]);
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  const money = { currency, fromAud };
+  const columns = buildColumns(money);
+  const groups = groupByStatus(items);
+  const itemsByStatus = groups.filter(([, statusItems]) => statusItems.length > 0);
+  if (itemsByStatus.length > 1) {
+    addSummarySheet(workbook.addWorksheet('Summary'), items, groups, money);
+  }
+  itemsByStatus.forEach(([status, statusItems]) => {
+    addItemsSheet(workbook.addWorksheet(status), statusItems, imageUrls, columns);
+  });
 
-  const headerRow = `<tr>${headers.map((header) => `<th>${header}</th>`).join('')}</tr>`;
-
-  const bodyRows = items
-    .map((item) => {
-      const rowValues = [
-        item.Component_Material,
-        item.Description_EN,
-        item.Kanban_Flag,
-        item.Latest_Component_Date,
-        item.Standard_Price,
-        item.Total_Qty,
-        item.Value,
-        item.Transfer_Status ?? 'Not Start',
-        item.Status_UpdatedAt ?? '',
-      ].map((value) => `<td>${formatValue(value)}</td>`);
-
-      return `<tr>${rowValues.join('')}</tr>`;
-    })
-    .join('');
-
-  const tableHtml = `<table><thead>${headerRow}</thead><tbody>${bodyRows}</tbody></table>`;
-  const blob = new Blob([`\ufeff${tableHtml}`], { type: EXCEL_MIME_TYPE });
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: XLSX_MIME_TYPE });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
-  link.download = `bom-transfer-${new Date().toISOString().split('T')[0]}.xls`;
+  link.download = `${fileName ?? `bom-transfer-${format(new Date(), 'yyyy-MM-dd')}`}.xlsx`;
 
   document.body.appendChild(link);
   link.click();
@@ -1,7 +1,15 @@
 // Import the functions you need from the SDKs you need
-import { initializeApp } from "firebase/app";
-import { getDatabase } from "firebase/database";
-import { getStorage, ref as storageRef, getDownloadURL } from "firebase/storage";
+import { initializeApp, FirebaseApp } from "firebase/app";
+import { getDatabase, Database, connectDatabaseEmulator } from "firebase/database";
+import { getAuth, Auth, connectAuthEmulator } from "firebase/auth";
+import {
+  getStorage,
+  FirebaseStorage,
+  ref as storageRef,
+  getDownloadURL,
+  connectStorageEmulator,
+  StorageError,
+} from "firebase/storage";
 
 // Your web app's Firebase configuration
 const firebaseConfig = {
@@ -15,19 +23,69 @@ const firebaseConfig = {
   measurementId: "G-E99627W9KP"
 };
 
-// Initialize Firebase
-const app = initializeApp(firebaseConfig);
-export const database = getDatabase(app);
-export const storage = getStorage(app);
+// Initialized lazily so non-Firebase backends never connect to the project
+let app: FirebaseApp | null = null;
+let database: Database | null = null;
+let storage: FirebaseStorage | null = null;
+let auth: Auth | null = null;
 
-// Function to get component image URL
+// "host:port" strings, e.g. VITE_FIREBASE_AUTH_EMULATOR_HOST=127.0.0.1:9099
+const parseEmulatorHost = (value?: string) => {
+  if (!value) return null;
+  const [host, port] = value.split(":");
+  return { host, port: Number(port) };
+};
+
+export const getFirebaseApp = (): FirebaseApp => {
+  if (!app) {
+    app = initializeApp(firebaseConfig);
+  }
+  return app;
+};
+
+export const getFirebaseDatabase = (): Database => {
+  if (!database) {
+    database = getDatabase(getFirebaseApp());
+    const emulator = parseEmulatorHost(import.meta.env.VITE_FIREBASE_DATABASE_EMULATOR_HOST);
+    if (emulator) {
+      connectDatabaseEmulator(database, emulator.host, emulator.port);
+    }
+  }
+  return database;
+};
+
+export const getFirebaseStorage = (): FirebaseStorage => {
+  if (!storage) {
+    storage = getStorage(getFirebaseApp());
+    const emulator = parseEmulatorHost(import.meta.env.VITE_FIREBASE_STORAGE_EMULATOR_HOST);
+    if (emulator) {
+      connectStorageEmulator(storage, emulator.host, emulator.port);
+    }
+  }
+  return storage;
+};
+
+export const getFirebaseAuth = (): Auth => {
+  if (!auth) {
+    auth = getAuth(getFirebaseApp());
+    const emulatorHost = import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_HOST;
+    if (emulatorHost) {
+      connectAuthEmulator(auth, `http://${emulatorHost}`, { disableWarnings: true });
+    }
+  }
+  return auth;
+};
+
+// Component images live at the bucket root as `${componentMaterial}.png`
+export const componentImagePath = (componentMaterial: string) => `${componentMaterial}.png`;
+
+// Resolves null only when the part has no image; network, permission and session errors reject
 export const getComponentImageUrl = async (componentMaterial: string): Promise<string | null> => {
   try {
-    const imageRef = storageRef(storage, `${componentMaterial}.png`);
-    const url = await getDownloadURL(imageRef);
-    return url;
+    const imageRef = storageRef(getFirebaseStorage(), componentImagePath(componentMaterial));
+    return await getDownloadURL(imageRef);
   } catch (error) {
-    console.log(`Image not found for component: ${componentMaterial}`);
-    return null;
+    if (error instanceof StorageError && error.code === "storage/object-not-found") return null;
+    throw error;
   }
-};
\ No newline at end of file
+};
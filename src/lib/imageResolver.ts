@@ -0,0 +1,178 @@
+import { activeBackend, bomRepository } from '@/lib/repository';
+
+interface CacheEntry {
+  url: string | null;
+  checkedAt: number;
+  /** The lookup failed rather than finding no image; kept in memory only */
+  failed?: boolean;
+}
+
+interface ImageResolverOptions {
+  /** Resolves `null` when there is no image and rejects when the lookup fails */
+  lookup: (componentMaterial: string) => Promise<string | null>;
+  storageKey: string;
+  concurrency?: number;
+  hitTtlMs?: number;
+  missTtlMs?: number;
+  /** How long a failed lookup shows as no image before it is tried again */
+  retryMs?: number;
+}
+
+export interface ImageResolver {
+  /** Cached URL, `null` for a known miss or a failed lookup, `undefined` when not resolved yet */
+  peek: (componentMaterial: string) => string | null | undefined;
+  request: (componentMaterial: string) => void;
+  /** Resolves through the same cache and queue as `request` */
+  resolve: (componentMaterial: string) => Promise<string | null>;
+  set: (componentMaterial: string, url: string | null) => void;
+  /** Drops a cached URL that no longer loads and looks the part up again */
+  invalidate: (componentMaterial: string) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Resolves component images through a persisted cache and a small worker pool,
+ * so list renders never wait on Storage and unchanged parts are rarely looked up twice.
+ * Only "no image" answers are cached as misses; failed lookups are retried.
+ */
+export const createImageResolver = ({
+  lookup,
+  storageKey,
+  concurrency = 4,
+  hitTtlMs = 7 * DAY_MS,
+  missTtlMs = DAY_MS,
+  retryMs = MINUTE_MS,
+}: ImageResolverOptions): ImageResolver => {
+  const cache = new Map<string, CacheEntry>();
+  const queue: string[] = [];
+  const queued = new Set<string>();
+  const listeners = new Set<() => void>();
+  const waiters = new Map<string, ((url: string | null) => void)[]>();
+  // URLs already looked up again after failing to load, so a broken one is not refetched in a loop
+  const refreshed = new Set<string>();
+  let active = 0;
+  let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (stored) {
+      Object.entries(JSON.parse(stored) as Record<string, CacheEntry>).forEach(([key, entry]) => {
+        cache.set(key, entry);
+      });
+    }
+  } catch (err) {
+    console.error('Error reading image cache:', err);
+  }
+
+  const persist = () => {
+    if (persistTimer) return;
+    persistTimer = setTimeout(() => {
+      persistTimer = null;
+      try {
+        const stored = Array.from(cache).filter(([, entry]) => !entry.failed);
+        localStorage.setItem(storageKey, JSON.stringify(Object.fromEntries(stored)));
+      } catch (err) {
+        console.error('Error saving image cache:', err);
+      }
+    }, 500);
+  };
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const ttl = (entry: CacheEntry) => (entry.failed ? retryMs : entry.url !== null ? hitTtlMs : missTtlMs);
+
+  const isFresh = (entry: CacheEntry | undefined) => !!entry && Date.now() - entry.checkedAt < ttl(entry);
+
+  const store = (componentMaterial: string, entry: CacheEntry) => {
+    cache.set(componentMaterial, entry);
+    waiters.get(componentMaterial)?.forEach((resolve) => resolve(entry.url));
+    waiters.delete(componentMaterial);
+    persist();
+    notify();
+  };
+
+  const set = (componentMaterial: string, url: string | null) => store(componentMaterial, { url, checkedAt: Date.now() });
+
+  // Shown as no image for now; once the entry expires, mounted images request it again
+  const fail = (componentMaterial: string) => {
+    store(componentMaterial, { url: null, checkedAt: Date.now(), failed: true });
+    setTimeout(notify, retryMs);
+  };
+
+  const pump = () => {
+    while (active < concurrency && queue.length) {
+      const componentMaterial = queue.shift()!;
+      active += 1;
+      lookup(componentMaterial)
+        .then(
+          (url) => set(componentMaterial, url),
+          (err) => {
+            console.error(`Error looking up the image for ${componentMaterial}:`, err);
+            fail(componentMaterial);
+          }
+        )
+        .finally(() => {
+          queued.delete(componentMaterial);
+          active -= 1;
+          pump();
+        });
+    }
+  };
+
+  const request = (componentMaterial: string) => {
+    if (queued.has(componentMaterial) || isFresh(cache.get(componentMaterial))) return;
+    queued.add(componentMaterial);
+    queue.push(componentMaterial);
+    pump();
+  };
+
+  return {
+    peek: (componentMaterial) => {
+      const entry = cache.get(componentMaterial);
+      return isFresh(entry) ? entry.url : undefined;
+    },
+
+    request,
+
+    resolve: (componentMaterial) => {
+      const entry = cache.get(componentMaterial);
+      if (isFresh(entry)) return Promise.resolve(entry.url);
+      return new Promise((resolve) => {
+        waiters.set(componentMaterial, [...(waiters.get(componentMaterial) ?? []), resolve]);
+        request(componentMaterial);
+      });
+    },
+
+    set,
+
+    invalidate: (componentMaterial) => {
+      const entry = cache.get(componentMaterial);
+      if (!entry?.url) return;
+      // A URL that fails again straight after a fresh lookup is treated like a failed lookup
+      if (refreshed.has(entry.url)) {
+        fail(componentMaterial);
+        return;
+      }
+      refreshed.add(entry.url);
+      cache.delete(componentMaterial);
+      persist();
+      notify();
+      request(componentMaterial);
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+export const imageResolver = createImageResolver({
+  lookup: bomRepository.getImageUrl,
+  storageKey: `bom-image-cache-${activeBackend}`,
+});
@@ -0,0 +1,86 @@
+// Longest edge of a stored part image; list thumbnails and the part page both fit well within it
+const MAX_IMAGE_EDGE = 1024;
+
+// Quality of the lossy encoding photos are stored with
+const LOSSY_IMAGE_QUALITY = 0.82;
+
+export const MAX_SOURCE_IMAGE_BYTES = 20 * 1024 * 1024;
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+/** Why a part image was not stored */
+export type ImageUploadFailure =
+  | 'not-allowed'
+  | 'not-an-image'
+  | 'too-large'
+  | 'unreadable'
+  | 'rejected'
+  | 'offline'
+  | 'error';
+
+export type ImageUploadResult = { success: true } | { success: false; failure: ImageUploadFailure };
+
+export const IMAGE_UPLOAD_FAILURE_MESSAGES: Record<ImageUploadFailure, string> = {
+  'not-allowed': 'Sign in as an editor to change part images.',
+  'not-an-image': 'Use a PNG, JPEG or WebP image.',
+  'too-large': 'Use an image under 20 MB.',
+  unreadable: 'The image could not be read. Try saving it as PNG or JPEG first.',
+  rejected: 'Storage refused the image. Your session may have expired or your role changed; sign in again.',
+  offline: 'You are offline. Upload the image again once you are back online.',
+  error: 'Something went wrong while storing the image. Please try again.',
+};
+
+/** First image in a drop or paste, if any */
+export const imageFromTransfer = (transfer: DataTransfer | null): File | null =>
+  Array.from(transfer?.files ?? []).find(isImageFile) ?? null;
+
+const encodeCanvas = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Image could not be encoded'))),
+      type,
+      quality
+    )
+  );
+
+// JPEG has no transparency, so transparent areas are put on white instead of black
+const flattenCanvas = (canvas: HTMLCanvasElement) => {
+  const flat = document.createElement('canvas');
+  flat.width = canvas.width;
+  flat.height = canvas.height;
+  const context = flat.getContext('2d')!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, flat.width, flat.height);
+  context.drawImage(canvas, 0, 0);
+  return flat;
+};
+
+// WebP keeps transparency; browsers that cannot write it hand back PNG, so JPEG is used there
+const encodeLossy = async (canvas: HTMLCanvasElement) => {
+  const webp = await encodeCanvas(canvas, 'image/webp', LOSSY_IMAGE_QUALITY);
+  if (webp.type === 'image/webp') return webp;
+  return encodeCanvas(flattenCanvas(canvas), 'image/jpeg', LOSSY_IMAGE_QUALITY);
+};
+
+/**
+ * Scales the image down to MAX_IMAGE_EDGE and re-encodes it, which also strips camera
+ * metadata. Both a lossless PNG and a lossy encoding are made and the smaller one is
+ * kept: drawings and screenshots usually stay PNG, photos go lossy.
+ */
+export const prepareComponentImage = async (file: File): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, MAX_IMAGE_EDGE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const [png, lossy] = await Promise.all([encodeCanvas(canvas, 'image/png'), encodeLossy(canvas)]);
+    return lossy.size < png.size ? lossy : png;
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,406 @@
+import type { jsPDF } from 'jspdf';
+import { format, isValid, parseISO } from 'date-fns';
+import type { BomItem } from '@/types/bom';
+
+export interface ReportKpis {
+  totalParts: number;
+  completedParts: number;
+  totalValue: number;
+  completedValue: number;
+  inProgressParts: number;
+  delayedPlans: number;
+  currentParts: number;
+  remainingInAu: number;
+}
+
+/** Chart rows mirror the dashboard's `useMemo` chart data */
+export interface PortfolioReportData {
+  generatedAt: Date;
+  periodLabel: string;
+  kpis: ReportKpis;
+  completedChart: { month: string; count: number; value: number }[];
+  planForecast: { month: string; parts: number; value: number; delayedParts: number }[];
+  plannedStartTrajectory: { month: string; plannedStarts: number; remaining: number }[];
+  topOpenParts: BomItem[];
+  delayedPlans: BomItem[];
+  formatCurrency: (value: number) => string;
+}
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+interface ComboChart {
+  title: string;
+  labels: string[];
+  bars: ChartSeries[];
+  stacked?: boolean;
+  line?: ChartSeries;
+  formatLine?: (value: number) => string;
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+  value: (item: BomItem) => string;
+}
+
+const PAGE_MARGIN = 16;
+const INDIGO = '#4f46e5';
+const EMERALD = '#10b981';
+const AMBER = '#f59e0b';
+const SLATE_900 = '#0f172a';
+const SLATE_500 = '#64748b';
+const SLATE_200 = '#e2e8f0';
+
+const formatCompact = (value: number) =>
+  new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+const formatMonth = (value?: string) => {
+  if (!value) return '—';
+  const parsed = parseISO(value);
+  return isValid(parsed) ? format(parsed, 'MMM yyyy') : value;
+};
+
+const pageWidth = (doc: jsPDF) => doc.internal.pageSize.getWidth();
+const pageHeight = (doc: jsPDF) => doc.internal.pageSize.getHeight();
+
+const drawSectionTitle = (doc: jsPDF, title: string, y: number) => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.setTextColor(SLATE_900);
+  doc.text(title, PAGE_MARGIN, y);
+  doc.setDrawColor(INDIGO);
+  doc.setLineWidth(0.6);
+  doc.line(PAGE_MARGIN, y + 2, PAGE_MARGIN + 24, y + 2);
+  return y + 10;
+};
+
+const drawCoverPage = (doc: jsPDF, data: PortfolioReportData) => {
+  doc.setFillColor(INDIGO);
+  doc.rect(0, 0, pageWidth(doc), 110, 'F');
+  doc.setTextColor('#ffffff');
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.text('BoM transfer', PAGE_MARGIN, 60);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(28);
+  doc.text('Portfolio report', PAGE_MARGIN, 74);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.text(data.periodLabel, PAGE_MARGIN, 86);
+
+  doc.setTextColor(SLATE_500);
+  doc.setFontSize(11);
+  doc.text(`Generated ${format(data.generatedAt, 'd MMMM yyyy, HH:mm')}`, PAGE_MARGIN, 130);
+  doc.text(
+    `${data.kpis.totalParts} parts · ${data.formatCurrency(data.kpis.totalValue)} total value`,
+    PAGE_MARGIN,
+    138
+  );
+};
+
+const drawKpis = (doc: jsPDF, data: PortfolioReportData, y: number) => {
+  const { kpis, formatCurrency } = data;
+  const completionRate = Math.round((kpis.completedParts / Math.max(kpis.totalParts, 1)) * 100);
+  const tiles = [
+    { label: 'Completion', value: `${completionRate}%`, color: SLATE_900 },
+    { label: 'Parts completed', value: `${kpis.completedParts} / ${kpis.totalParts}`, color: SLATE_900 },
+    { label: 'Value completed', value: formatCurrency(kpis.completedValue), color: EMERALD },
+    { label: 'Total value', value: formatCurrency(kpis.totalValue), color: SLATE_900 },
+    { label: 'In progress', value: String(kpis.inProgressParts), color: INDIGO },
+    { label: 'Past-due plans', value: String(kpis.delayedPlans), color: AMBER },
+    { label: 'Current BoM (Not Start)', value: String(kpis.currentParts), color: INDIGO },
+    { label: 'Remaining in AU', value: String(kpis.remainingInAu), color: SLATE_500 },
+  ];
+  const columns = 4;
+  const gap = 4;
+  const width = (pageWidth(doc) - PAGE_MARGIN * 2 - gap * (columns - 1)) / columns;
+  const height = 22;
+
+  tiles.forEach((tile, index) => {
+    const x = PAGE_MARGIN + (index % columns) * (width + gap);
+    const top = y + Math.floor(index / columns) * (height + gap);
+    doc.setFillColor('#f8fafc');
+    doc.setDrawColor(SLATE_200);
+    doc.setLineWidth(0.2);
+    doc.roundedRect(x, top, width, height, 2, 2, 'FD');
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(SLATE_500);
+    doc.text(tile.label, x + 4, top + 7);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.setTextColor(tile.color);
+    doc.text(tile.value, x + 4, top + 17);
+  });
+
+  return y + Math.ceil(tiles.length / columns) * (height + gap) + 4;
+};
+
+/** Bars on the left axis, optional line on an independent right axis */
+const drawComboChart = (doc: jsPDF, chart: ComboChart, y: number, height = 80) => {
+  const x = PAGE_MARGIN;
+  const width = pageWidth(doc) - PAGE_MARGIN * 2;
+  const plot = { left: x + 12, right: x + width - 14, top: y + 10, bottom: y + height - 16 };
+  const plotWidth = plot.right - plot.left;
+  const plotHeight = plot.bottom - plot.top;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor(SLATE_900);
+  doc.text(chart.title, x, y + 4);
+
+  if (!chart.labels.length) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(SLATE_500);
+    doc.text('No data for this period', plot.left, plot.top + 10);
+    return y + 30;
+  }
+
+  const barTotals = chart.labels.map((_label, index) =>
+    chart.stacked
+      ? chart.bars.reduce((sum, series) => sum + (series.values[index] || 0), 0)
+      : Math.max(...chart.bars.map((series) => series.values[index] || 0))
+  );
+  const barMax = Math.max(...barTotals, 1);
+  const lineMax = chart.line ? Math.max(...chart.line.values, 1) : 1;
+  const ticks = 4;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.setLineWidth(0.1);
+  for (let tick = 0; tick <= ticks; tick += 1) {
+    const tickY = plot.bottom - (plotHeight * tick) / ticks;
+    doc.setDrawColor(SLATE_200);
+    doc.line(plot.left, tickY, plot.right, tickY);
+    doc.setTextColor(SLATE_500);
+    doc.text(formatCompact((barMax * tick) / ticks), plot.left - 2, tickY + 1, { align: 'right' });
+    if (chart.line) {
+      const lineLabel = (lineMax * tick) / ticks;
+      doc.text(chart.formatLine ? chart.formatLine(lineLabel) : formatCompact(lineLabel), plot.right + 2, tickY + 1);
+    }
+  }
+
+  const groupWidth = plotWidth / chart.labels.length;
+  const barWidth = chart.stacked ? groupWidth * 0.6 : (groupWidth * 0.7) / chart.bars.length;
+
+  chart.labels.forEach((label, index) => {
+    const groupLeft = plot.left + groupWidth * index;
+    let stackBase = plot.bottom;
+    chart.bars.forEach((series, seriesIndex) => {
+      const barHeight = ((series.values[index] || 0) / barMax) * plotHeight;
+      if (barHeight <= 0) return;
+      const barLeft = chart.stacked
+        ? groupLeft + (groupWidth - barWidth) / 2
+        : groupLeft + groupWidth * 0.15 + barWidth * seriesIndex;
+      const barTop = chart.stacked ? stackBase - barHeight : plot.bottom - barHeight;
+      doc.setFillColor(series.color);
+      doc.rect(barLeft, barTop, barWidth, barHeight, 'F');
+      if (chart.stacked) stackBase = barTop;
+    });
+    doc.setTextColor(SLATE_500);
+    doc.text(label, groupLeft + groupWidth / 2, plot.bottom + 4, { align: 'center' });
+  });
+
+  if (chart.line) {
+    const points = chart.line.values.map((value, index) => ({
+      px: plot.left + groupWidth * index + groupWidth / 2,
+      py: plot.bottom - (value / lineMax) * plotHeight,
+    }));
+    doc.setDrawColor(chart.line.color);
+    doc.setFillColor(chart.line.color);
+    doc.setLineWidth(0.6);
+    points.forEach((point, index) => {
+      if (index > 0) doc.line(points[index - 1].px, points[index - 1].py, point.px, point.py);
+      doc.circle(point.px, point.py, 0.8, 'F');
+    });
+  }
+
+  let legendX = plot.left;
+  const legendY = y + height - 6;
+  [...chart.bars, ...(chart.line ? [chart.line] : [])].forEach((series) => {
+    doc.setFillColor(series.color);
+    doc.rect(legendX, legendY - 2.5, 3, 3, 'F');
+    doc.setFontSize(8);
+    doc.setTextColor(SLATE_900);
+    doc.text(series.label, legendX + 5, legendY);
+    legendX += doc.getTextWidth(series.label) + 12;
+  });
+
+  return y + height + 6;
+};
+
+const drawTable = (doc: jsPDF, columns: TableColumn[], items: BomItem[], startY: number) => {
+  const rowHeight = 7;
+  const bottomLimit = pageHeight(doc) - PAGE_MARGIN - 8;
+  let y = startY;
+
+  const drawHeader = () => {
+    doc.setFillColor(INDIGO);
+    doc.rect(PAGE_MARGIN, y, pageWidth(doc) - PAGE_MARGIN * 2, rowHeight, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    doc.setTextColor('#ffffff');
+    let x = PAGE_MARGIN;
+    columns.forEach((column) => {
+      const textX = column.align === 'right' ? x + column.width - 2 : x + 2;
+      doc.text(column.header, textX, y + 4.8, { align: column.align ?? 'left' });
+      x += column.width;
+    });
+    y += rowHeight;
+  };
+
+  drawHeader();
+  if (!items.length) {
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(SLATE_500);
+    doc.text('None', PAGE_MARGIN + 2, y + 4.8);
+    return y + rowHeight + 6;
+  }
+
+  doc.setFont('helvetica', 'normal');
+  items.forEach((item, index) => {
+    if (y + rowHeight > bottomLimit) {
+      doc.addPage();
+      y = PAGE_MARGIN + 6;
+      drawHeader();
+      doc.setFont('helvetica', 'normal');
+    }
+    if (index % 2 === 1) {
+      doc.setFillColor('#f8fafc');
+      doc.rect(PAGE_MARGIN, y, pageWidth(doc) - PAGE_MARGIN * 2, rowHeight, 'F');
+    }
+    doc.setTextColor(SLATE_900);
+    let x = PAGE_MARGIN;
+    columns.forEach((column) => {
+      const [text] = doc.splitTextToSize(column.value(item), column.width - 4) as string[];
+      const textX = column.align === 'right' ? x + column.width - 2 : x + 2;
+      doc.text(text ?? '', textX, y + 4.8, { align: column.align ?? 'left' });
+      x += column.width;
+    });
+    y += rowHeight;
+  });
+
+  return y + 6;
+};
+
+const drawFooters = (doc: jsPDF, generatedAt: Date) => {
+  const pages = doc.getNumberOfPages();
+  for (let page = 2; page <= pages; page += 1) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(SLATE_500);
+    const footerY = pageHeight(doc) - 8;
+    doc.text(`BoM transfer portfolio report · ${format(generatedAt, 'd MMM yyyy, HH:mm')}`, PAGE_MARGIN, footerY);
+    doc.text(`Page ${page} of ${pages}`, pageWidth(doc) - PAGE_MARGIN, footerY, { align: 'right' });
+  }
+};
+
+/** Builds the printable report and downloads it as `bom-transfer-report-<date>.pdf` */
+export const exportPortfolioReportPdf = async (data: PortfolioReportData) => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const { formatCurrency } = data;
+
+  drawCoverPage(doc, data);
+
+  doc.addPage();
+  let y = drawSectionTitle(doc, 'Headline KPIs', PAGE_MARGIN + 6);
+  y = drawKpis(doc, data, y);
+  y = drawSectionTitle(doc, 'Completed', y + 4);
+  y = drawComboChart(
+    doc,
+    {
+      title: 'Completion distribution',
+      labels: data.completedChart.map((row) => row.month),
+      bars: [{ label: 'Parts', color: INDIGO, values: data.completedChart.map((row) => row.count) }],
+      line: { label: 'Value', color: EMERALD, values: data.completedChart.map((row) => row.value) },
+      formatLine: formatCompact,
+    },
+    y
+  );
+
+  doc.addPage();
+  y = drawSectionTitle(doc, 'Plan and current BoM', PAGE_MARGIN + 6);
+  y = drawComboChart(
+    doc,
+    {
+      title: 'Plan forecast by expected completion',
+      labels: data.planForecast.map((row) => row.month),
+      stacked: true,
+      bars: [
+        {
+          label: 'On track',
+          color: INDIGO,
+          values: data.planForecast.map((row) => row.parts - row.delayedParts),
+        },
+        { label: 'Past due', color: AMBER, values: data.planForecast.map((row) => row.delayedParts) },
+      ],
+      line: { label: 'Value', color: EMERALD, values: data.planForecast.map((row) => row.value) },
+      formatLine: formatCompact,
+    },
+    y
+  );
+  drawComboChart(
+    doc,
+    {
+      title: 'Current BoM trajectory by planned start',
+      labels: data.plannedStartTrajectory.map((row) => row.month),
+      bars: [
+        {
+          label: 'Planned starts',
+          color: INDIGO,
+          values: data.plannedStartTrajectory.map((row) => row.plannedStarts),
+        },
+      ],
+      line: {
+        label: 'Remaining parts',
+        color: SLATE_500,
+        values: data.plannedStartTrajectory.map((row) => row.remaining),
+      },
+    },
+    y + 4
+  );
+
+  doc.addPage();
+  y = drawSectionTitle(doc, 'Top-value open parts', PAGE_MARGIN + 6);
+  y = drawTable(
+    doc,
+    [
+      { header: 'Material', width: 32, value: (item) => item.Component_Material },
+      { header: 'Description', width: 70, value: (item) => item.Description_EN || '' },
+      { header: 'Status', width: 26, value: (item) => item.Transfer_Status || 'Not Start' },
+      { header: 'Qty', width: 20, align: 'right', value: (item) => item.Total_Qty.toLocaleString('en-US') },
+      { header: 'Value', width: 30, align: 'right', value: (item) => formatCurrency(item.Value || 0) },
+    ],
+    data.topOpenParts,
+    y
+  );
+
+  if (y > pageHeight(doc) - 60) {
+    doc.addPage();
+    y = PAGE_MARGIN + 6;
+  }
+  y = drawSectionTitle(doc, 'Delayed plans', y + 4);
+  drawTable(
+    doc,
+    [
+      { header: 'Material', width: 32, value: (item) => item.Component_Material },
+      { header: 'Description', width: 66, value: (item) => item.Description_EN || '' },
+      { header: 'Expected', width: 24, value: (item) => formatMonth(item.Expected_Completion) },
+      { header: 'Brand', width: 26, value: (item) => item.Brand || '—' },
+      { header: 'Value', width: 30, align: 'right', value: (item) => formatCurrency(item.Value || 0) },
+    ],
+    data.delayedPlans,
+    y
+  );
+
+  drawFooters(doc, data.generatedAt);
+  doc.save(`bom-transfer-report-${format(data.generatedAt, 'yyyy-MM-dd')}.pdf`);
+};
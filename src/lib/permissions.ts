@@ -0,0 +1,29 @@
+import { UserRole } from '@/lib/auth';
+
+export type Permission =
+  | 'comment'
+  | 'editTransfer'
+  | 'revertFinished'
+  | 'importBom'
+  | 'attachFiles'
+  | 'manageAttachments'
+  | 'manageSuppliers'
+  | 'manageExchangeRates';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: ['comment'],
+  editor: ['comment', 'editTransfer', 'attachFiles'],
+  admin: [
+    'comment',
+    'editTransfer',
+    'revertFinished',
+    'importBom',
+    'attachFiles',
+    'manageAttachments',
+    'manageSuppliers',
+    'manageExchangeRates',
+  ],
+};
+
+export const hasPermission = (role: UserRole, permission: Permission) =>
+  ROLE_PERMISSIONS[role].includes(permission);
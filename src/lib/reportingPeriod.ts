@@ -0,0 +1,114 @@
+import { addDays, addMonths, format, isValid, parseISO, subDays } from 'date-fns';
+
+export type PeriodKind = 'calendar' | 'fiscal' | 'quarter' | 'custom';
+
+/**
+ * Fiscal years are named after the calendar year they end in (FY2026 = Jul 2025 – Jun 2026
+ * with a July start); quarters count from the start of the fiscal year.
+ */
+export type ReportingPeriod =
+  | { kind: 'calendar'; year: number }
+  | { kind: 'fiscal'; year: number }
+  | { kind: 'quarter'; year: number; quarter: number }
+  | { kind: 'custom'; from: string; to: string };
+
+/** `end` is exclusive */
+export interface PeriodRange {
+  start: Date;
+  end: Date;
+}
+
+export const PERIOD_KINDS: { kind: PeriodKind; label: string }[] = [
+  { kind: 'calendar', label: 'Calendar year' },
+  { kind: 'fiscal', label: 'Fiscal year' },
+  { kind: 'quarter', label: 'Quarter' },
+  { kind: 'custom', label: 'Custom range' },
+];
+
+const fiscalYearStart = (year: number, startMonth: number) =>
+  startMonth === 0 ? new Date(year, 0, 1) : new Date(year - 1, startMonth, 1);
+
+const fiscalYearOf = (date: Date, startMonth: number) =>
+  startMonth > 0 && date.getMonth() >= startMonth ? date.getFullYear() + 1 : date.getFullYear();
+
+export const getPeriodRange = (period: ReportingPeriod, fiscalStartMonth: number): PeriodRange => {
+  switch (period.kind) {
+    case 'calendar':
+      return { start: new Date(period.year, 0, 1), end: new Date(period.year + 1, 0, 1) };
+    case 'fiscal': {
+      const start = fiscalYearStart(period.year, fiscalStartMonth);
+      return { start, end: addMonths(start, 12) };
+    }
+    case 'quarter': {
+      const start = addMonths(fiscalYearStart(period.year, fiscalStartMonth), (period.quarter - 1) * 3);
+      return { start, end: addMonths(start, 3) };
+    }
+    case 'custom': {
+      const from = parseISO(period.from);
+      const to = parseISO(period.to);
+      const start = isValid(from) ? from : new Date(0);
+      return { start, end: isValid(to) && to >= start ? addDays(to, 1) : addDays(start, 1) };
+    }
+  }
+};
+
+/** The period of the given kind that contains `now`; custom ranges default to the last 90 days */
+export const currentPeriod = (kind: PeriodKind, fiscalStartMonth: number, now = new Date()): ReportingPeriod => {
+  switch (kind) {
+    case 'calendar':
+      return { kind, year: now.getFullYear() };
+    case 'fiscal':
+      return { kind, year: fiscalYearOf(now, fiscalStartMonth) };
+    case 'quarter':
+      return {
+        kind,
+        year: fiscalYearOf(now, fiscalStartMonth),
+        quarter: Math.floor(((now.getMonth() - fiscalStartMonth + 12) % 12) / 3) + 1,
+      };
+    case 'custom':
+      return { kind, from: format(subDays(now, 90), 'yyyy-MM-dd'), to: format(now, 'yyyy-MM-dd') };
+  }
+};
+
+/** Moves a period back or forward by whole periods; custom ranges stay as they are */
+export const shiftPeriod = (period: ReportingPeriod, delta: number): ReportingPeriod => {
+  switch (period.kind) {
+    case 'calendar':
+    case 'fiscal':
+      return { ...period, year: period.year + delta };
+    case 'quarter': {
+      const index = period.year * 4 + (period.quarter - 1) + delta;
+      return { kind: 'quarter', year: Math.floor(index / 4), quarter: (index % 4) + 1 };
+    }
+    case 'custom':
+      return period;
+  }
+};
+
+export const formatPeriodLabel = (period: ReportingPeriod): string => {
+  switch (period.kind) {
+    case 'calendar':
+      return String(period.year);
+    case 'fiscal':
+      return `FY${period.year}`;
+    case 'quarter':
+      return `Q${period.quarter} FY${period.year}`;
+    case 'custom': {
+      const from = parseISO(period.from);
+      const to = parseISO(period.to);
+      return isValid(from) && isValid(to)
+        ? `${format(from, 'd MMM yy')} – ${format(to, 'd MMM yy')}`
+        : 'Custom range';
+    }
+  }
+};
+
+/** e.g. "Jul 2025 – Jun 2026" */
+export const formatPeriodRange = ({ start, end }: PeriodRange) => {
+  const last = subDays(end, 1);
+  return start.getDate() === 1 && end.getDate() === 1
+    ? `${format(start, 'MMM yyyy')} – ${format(last, 'MMM yyyy')}`
+    : `${format(start, 'd MMM yyyy')} – ${format(last, 'd MMM yyyy')}`;
+};
+
+export const isInPeriod = (date: Date, { start, end }: PeriodRange) => date >= start && date < end;
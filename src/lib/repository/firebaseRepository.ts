@@ -0,0 +1,312 @@
+import {
+  ref,
+  onValue,
+  onChildAdded,
+  onChildChanged,
+  onChildRemoved,
+  update,
+  push,
+  query,
+  orderByKey,
+  startAt,
+  endAt,
+  get,
+  runTransaction,
+  increment,
+} from 'firebase/database';
+import {
+  deleteObject,
+  FullMetadata,
+  getDownloadURL,
+  getMetadata,
+  listAll,
+  ref as storageRef,
+  StorageReference,
+  uploadBytes,
+  uploadBytesResumable,
+} from 'firebase/storage';
+import { attachmentFolder, createAttachmentId, isAttachmentCategory } from '@/lib/attachments';
+import { componentImagePath, getComponentImageUrl, getFirebaseDatabase, getFirebaseStorage } from '@/lib/firebase';
+import { PartAttachment } from '@/types/bom';
+import { isStaleUpdate, WriteConflict, WriteConflictError } from './partRecord';
+import {
+  BomRecord,
+  BomRecordChange,
+  BomRepository,
+  PartUpdate,
+  StatusChange,
+  StatusHistoryRecord,
+  WriteActor,
+} from './types';
+
+// Every bom_summary write records who made it
+const attribution = (componentMaterial: string, actor: WriteActor, at = new Date().toISOString()) => ({
+  [`bom_summary/${componentMaterial}/Updated_By`]: actor.uid,
+  [`bom_summary/${componentMaterial}/Updated_At`]: at,
+});
+
+// Uploader and category travel as custom metadata on the stored object
+const toAttachment = (metadata: FullMetadata, url: string): PartAttachment => {
+  const custom = metadata.customMetadata || {};
+  return {
+    id: metadata.name,
+    name: custom.originalName || metadata.name,
+    category: isAttachmentCategory(custom.category) ? custom.category : 'other',
+    contentType: metadata.contentType || 'application/octet-stream',
+    size: metadata.size,
+    uploadedBy: custom.uploadedBy || 'Unknown',
+    uploadedById: custom.uploadedById || '',
+    uploadedAt: metadata.timeCreated,
+    url,
+  };
+};
+
+const toHistoryRecord = (status: StatusChange, actor: WriteActor): StatusHistoryRecord => ({
+  from: status.from,
+  to: status.to,
+  at: status.at,
+  actor: actor.name,
+  actorId: actor.uid,
+  note: status.note || null,
+});
+
+const loadAttachment = async (fileRef: StorageReference) => {
+  const [metadata, url] = await Promise.all([getMetadata(fileRef), getDownloadURL(fileRef)]);
+  return toAttachment(metadata, url);
+};
+
+export const createFirebaseBomRepository = (): BomRepository => {
+  const database = getFirebaseDatabase();
+
+  // The revision is written as the one the change expects plus one, which the rules accept only while it is current
+  const buildPartPaths = ({ componentMaterial, fields, status, expectedRevision }: PartUpdate, actor: WriteActor) => {
+    const at = status?.at ?? new Date().toISOString();
+    const paths: Record<string, unknown> = attribution(componentMaterial, actor, at);
+
+    Object.entries({ ...fields, ...status?.details }).forEach(([field, value]) => {
+      paths[`bom_summary/${componentMaterial}/${field}`] = value ?? null;
+    });
+    paths[`bom_summary/${componentMaterial}/Revision`] =
+      expectedRevision !== undefined ? expectedRevision + 1 : increment(1);
+
+    if (status) {
+      const historyKey = push(ref(database, `bom_history/${componentMaterial}`)).key;
+      paths[`bom_summary/${componentMaterial}/Transfer_Status`] = status.to;
+      paths[`bom_summary/${componentMaterial}/Status_UpdatedAt`] = status.at;
+      paths[`bom_history/${componentMaterial}/${historyKey}`] = toHistoryRecord(status, actor);
+    }
+
+    return paths;
+  };
+
+  return {
+    subscribe: (onChanges, onError) => {
+      const bomRef = ref(database, 'bom_summary');
+      let pending: BomRecordChange[] = [];
+      let ready = false;
+      let scheduled = false;
+
+      // Child events arrive one at a time; hand them over in batches
+      const flush = () => {
+        scheduled = false;
+        const batch = pending;
+        pending = [];
+        onChanges(batch);
+      };
+
+      const enqueue = (change: BomRecordChange) => {
+        pending.push(change);
+        if (ready && !scheduled) {
+          scheduled = true;
+          queueMicrotask(flush);
+        }
+      };
+
+      const unsubscribers = [
+        onChildAdded(bomRef, (snapshot) => enqueue({ type: 'added', key: snapshot.key!, record: snapshot.val() }), onError),
+        onChildChanged(bomRef, (snapshot) => enqueue({ type: 'changed', key: snapshot.key!, record: snapshot.val() }), onError),
+        onChildRemoved(bomRef, (snapshot) => enqueue({ type: 'removed', key: snapshot.key! }), onError),
+      ];
+
+      // The value event fires once every initial child_added has been raised
+      const unsubscribeReady = onValue(
+        bomRef,
+        () => {
+          ready = true;
+          flush();
+        },
+        onError,
+        { onlyOnce: true }
+      );
+
+      return () => {
+        unsubscribers.forEach((unsubscribe) => unsubscribe());
+        unsubscribeReady();
+      };
+    },
+
+    subscribeHistory: (componentMaterial, onData, onError) =>
+      onValue(ref(database, `bom_history/${componentMaterial}`), (snapshot) => onData(snapshot.val() || {}), onError),
+
+    updateParts: async (updates, actor) => {
+      const paths = updates.reduce(
+        (all, partUpdate) => ({ ...all, ...buildPartPaths(partUpdate, actor) }),
+        {} as Record<string, unknown>
+      );
+      try {
+        await update(ref(database), paths);
+      } catch (err) {
+        // The rules reject the whole update when any revision moved on; find out which parts did
+        const stored = await Promise.all(
+          updates.map((partUpdate) => get(ref(database, `bom_summary/${partUpdate.componentMaterial}`)))
+        );
+        const conflicts: WriteConflict[] = updates
+          .map((partUpdate, index) => ({
+            componentMaterial: partUpdate.componentMaterial,
+            update: partUpdate,
+            server: stored[index].val() as BomRecord | null,
+          }))
+          .filter(({ update: partUpdate, server }) => !server || isStaleUpdate(partUpdate, server));
+        if (conflicts.length) throw new WriteConflictError(conflicts);
+        throw err;
+      }
+    },
+
+    applyImport: async (changes, actor) => {
+      const paths: Record<string, unknown> = {};
+      changes.forEach(({ componentMaterial, kind, fields }) => {
+        if (kind === 'removed') {
+          paths[`bom_summary/${componentMaterial}`] = null;
+          return;
+        }
+        // Field-level paths leave transfer fields such as Transfer_Status untouched
+        Object.entries(fields || {}).forEach(([field, value]) => {
+          paths[`bom_summary/${componentMaterial}/${field}`] = value ?? null;
+        });
+        // Queued edits made against the part before the import must not land over it unnoticed
+        if (kind === 'changed') paths[`bom_summary/${componentMaterial}/Revision`] = increment(1);
+        Object.assign(paths, attribution(componentMaterial, actor));
+      });
+
+      await update(ref(database), paths);
+    },
+
+    subscribeComments: (componentMaterial, onData, onError) =>
+      onValue(ref(database, `bom_comments/${componentMaterial}`), (snapshot) => onData(snapshot.val() || {}), onError),
+
+    subscribeCommentMeta: (onData, onError) =>
+      onValue(ref(database, 'bom_comment_meta'), (snapshot) => onData(snapshot.val() || {}), onError),
+
+    addComment: (componentMaterial, text, actor) => {
+      const at = new Date().toISOString();
+      const commentKey = push(ref(database, `bom_comments/${componentMaterial}`)).key;
+      return update(ref(database), {
+        [`bom_comments/${componentMaterial}/${commentKey}`]: { text, author: actor.name, authorId: actor.uid, createdAt: at },
+        [`bom_comment_meta/${componentMaterial}/count`]: increment(1),
+        [`bom_comment_meta/${componentMaterial}/lastCommentAt`]: at,
+        [`bom_comment_meta/${componentMaterial}/changedComment`]: commentKey,
+      });
+    },
+
+    updateComment: (componentMaterial, commentId, text) =>
+      update(ref(database, `bom_comments/${componentMaterial}/${commentId}`), {
+        text,
+        updatedAt: new Date().toISOString(),
+      }),
+
+    deleteComment: (componentMaterial, commentId) =>
+      update(ref(database), {
+        [`bom_comments/${componentMaterial}/${commentId}`]: null,
+        [`bom_comment_meta/${componentMaterial}/count`]: increment(-1),
+        [`bom_comment_meta/${componentMaterial}/changedComment`]: commentId,
+      }),
+
+    subscribeSnapshots: ({ from, to }, onData, onError) => {
+      const snapshotsQuery = query(ref(database, 'bom_snapshots'), orderByKey(), startAt(from), endAt(to));
+      return onValue(snapshotsQuery, (snapshot) => onData(snapshot.val() || {}), onError);
+    },
+
+    saveDailySnapshot: async (date, snapshot) => {
+      // Aborting when the day exists keeps the first snapshot of the day
+      const result = await runTransaction(ref(database, `bom_snapshots/${date}`), (current) =>
+        current === null ? snapshot : undefined
+      );
+      return result.committed;
+    },
+
+    subscribeSuppliers: (onData, onError) =>
+      onValue(ref(database, 'suppliers'), (snapshot) => onData(snapshot.val() || {}), onError),
+
+    saveSupplier: async (supplierId, fields, actor) => {
+      const id = supplierId ?? push(ref(database, 'suppliers')).key!;
+      await update(ref(database, `suppliers/${id}`), {
+        ...fields,
+        Updated_By: actor.uid,
+        Updated_At: new Date().toISOString(),
+      });
+      return id;
+    },
+
+    deleteSupplier: (supplierId, assignedParts, actor) => {
+      const at = new Date().toISOString();
+      const paths: Record<string, unknown> = { [`suppliers/${supplierId}`]: null };
+      assignedParts.forEach((componentMaterial) => {
+        paths[`bom_summary/${componentMaterial}/Supplier_Id`] = null;
+        paths[`bom_summary/${componentMaterial}/Revision`] = increment(1);
+        Object.assign(paths, attribution(componentMaterial, actor, at));
+      });
+      return update(ref(database), paths);
+    },
+
+    subscribeExchangeRates: (onData, onError) =>
+      onValue(ref(database, 'exchange_rates'), (snapshot) => onData(snapshot.val() || {}), onError),
+
+    saveExchangeRate: async (rateId, fields, actor) => {
+      const id = rateId ?? push(ref(database, 'exchange_rates')).key!;
+      await update(ref(database, `exchange_rates/${id}`), {
+        ...fields,
+        Updated_By: actor.uid,
+        Updated_At: new Date().toISOString(),
+      });
+      return id;
+    },
+
+    deleteExchangeRate: (rateId) => update(ref(database), { [`exchange_rates/${rateId}`]: null }),
+
+    getImageUrl: getComponentImageUrl,
+
+    uploadImage: async (componentMaterial, image, actor) => {
+      const imageRef = storageRef(getFirebaseStorage(), componentImagePath(componentMaterial));
+      await uploadBytes(imageRef, image, {
+        contentType: image.type || 'image/png',
+        customMetadata: { uploadedBy: actor.name, uploadedById: actor.uid },
+      });
+      return getDownloadURL(imageRef);
+    },
+
+    listAttachments: async (componentMaterial) => {
+      const folder = await listAll(storageRef(getFirebaseStorage(), attachmentFolder(componentMaterial)));
+      const attachments = await Promise.all(folder.items.map(loadAttachment));
+      return attachments.sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+    },
+
+    uploadAttachment: async (componentMaterial, { file, category }, actor, onProgress) => {
+      const fileRef = storageRef(
+        getFirebaseStorage(),
+        `${attachmentFolder(componentMaterial)}/${createAttachmentId(file.name)}`
+      );
+      const task = uploadBytesResumable(fileRef, file, {
+        contentType: file.type || 'application/octet-stream',
+        customMetadata: { category, originalName: file.name, uploadedBy: actor.name, uploadedById: actor.uid },
+      });
+      if (onProgress) {
+        task.on('state_changed', (snapshot) => onProgress(snapshot.bytesTransferred / snapshot.totalBytes));
+      }
+      await task;
+      return loadAttachment(fileRef);
+    },
+
+    deleteAttachment: (componentMaterial, attachmentId) =>
+      deleteObject(storageRef(getFirebaseStorage(), `${attachmentFolder(componentMaterial)}/${attachmentId}`)),
+  };
+};
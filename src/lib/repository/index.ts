@@ -0,0 +1,51 @@
+import { createFirebaseBomRepository } from './firebaseRepository';
+import { createLocalBomRepository } from './localRepository';
+import { BomRepository } from './types';
+
+export type BomBackend = 'firebase' | 'local' | 'memory';
+
+const BACKEND_STORAGE_KEY = 'bom-transfer-backend';
+const BACKENDS: BomBackend[] = ['firebase', 'local', 'memory'];
+
+const isBackend = (value: string | null | undefined): value is BomBackend =>
+  !!value && BACKENDS.includes(value as BomBackend);
+
+/**
+ * Backend is chosen once at startup: `?backend=` (remembered for the session),
+ * then `VITE_BOM_BACKEND`, then Firebase.
+ */
+const resolveBackend = (): BomBackend => {
+  try {
+    const fromQuery = new URLSearchParams(window.location.search).get('backend');
+    if (isBackend(fromQuery)) {
+      sessionStorage.setItem(BACKEND_STORAGE_KEY, fromQuery);
+      return fromQuery;
+    }
+    const remembered = sessionStorage.getItem(BACKEND_STORAGE_KEY);
+    if (isBackend(remembered)) return remembered;
+  } catch {
+    // Fall through to the build-time setting
+  }
+
+  const configured = import.meta.env.VITE_BOM_BACKEND;
+  return isBackend(configured) ? configured : 'firebase';
+};
+
+const createRepository = (backend: BomBackend): BomRepository => {
+  switch (backend) {
+    case 'local':
+      return createLocalBomRepository();
+    case 'memory':
+      return createLocalBomRepository({ persist: false });
+    case 'firebase':
+    default:
+      return createFirebaseBomRepository();
+  }
+};
+
+export const activeBackend = resolveBackend();
+export const bomRepository = createRepository(activeBackend);
+
+export * from './types';
+export { WriteConflictError } from './partRecord';
+export type { WriteConflict } from './partRecord';
@@ -0,0 +1,341 @@
+import { createAttachmentId } from '@/lib/attachments';
+import { PartAttachment } from '@/types/bom';
+import {
+  BomRecord,
+  BomRecordChange,
+  BomRepository,
+  CommentMetaRecord,
+  CommentRecord,
+  ExchangeRateRecord,
+  PartUpdate,
+  SnapshotRecord,
+  StatusHistoryRecord,
+  SupplierRecord,
+  WriteActor,
+} from './types';
+import { isStaleUpdate, mergePartUpdate, WriteConflict, WriteConflictError } from './partRecord';
+import { seedBomSummary } from './seedData';
+
+interface LocalDatabase {
+  bom_summary: Record<string, BomRecord>;
+  bom_history: Record<string, Record<string, StatusHistoryRecord>>;
+  bom_snapshots: Record<string, SnapshotRecord>;
+  bom_comments: Record<string, Record<string, CommentRecord>>;
+  bom_comment_meta: Record<string, CommentMetaRecord>;
+  suppliers: Record<string, SupplierRecord>;
+  exchange_rates: Record<string, ExchangeRateRecord>;
+}
+
+interface LocalRepositoryOptions {
+  storageKey?: string;
+  persist?: boolean;
+}
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const emptyDatabase = (): LocalDatabase => ({
+  bom_summary: { ...seedBomSummary },
+  bom_history: {},
+  bom_snapshots: {},
+  bom_comments: {},
+  bom_comment_meta: {},
+  suppliers: {},
+  exchange_rates: {},
+});
+
+/**
+ * In-memory backend, optionally persisted to localStorage, for demos and development.
+ * Writes replace touched records so subscribers can rely on reference changes.
+ */
+export const createLocalBomRepository = ({
+  storageKey = 'bom-transfer-local-db',
+  persist = true,
+}: LocalRepositoryOptions = {}): BomRepository => {
+  const load = (): LocalDatabase => {
+    if (!persist) return emptyDatabase();
+    try {
+      const stored = localStorage.getItem(storageKey);
+      return stored ? { ...emptyDatabase(), ...JSON.parse(stored) } : emptyDatabase();
+    } catch (err) {
+      console.error('Error reading local database:', err);
+      return emptyDatabase();
+    }
+  };
+
+  let db = load();
+  // Files and images stay in memory as object URLs for the session; localStorage is too small for them
+  const attachments = new Map<string, PartAttachment[]>();
+  const images = new Map<string, string>();
+  const listeners = new Set<() => void>();
+
+  const commit = (next: LocalDatabase) => {
+    db = next;
+    if (persist) {
+      localStorage.setItem(storageKey, JSON.stringify(db));
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  // Returns a new database with one part's fields, status and history entry applied
+  const applyPartUpdate = (state: LocalDatabase, partUpdate: PartUpdate, actor: WriteActor): LocalDatabase => {
+    const { componentMaterial, status } = partUpdate;
+    const existing = state.bom_summary[componentMaterial];
+    if (!existing) {
+      throw new Error(`Unknown component material: ${componentMaterial}`);
+    }
+
+    const record = mergePartUpdate(existing, partUpdate, actor);
+
+    const bom_history = status
+      ? {
+          ...state.bom_history,
+          [componentMaterial]: {
+            ...state.bom_history[componentMaterial],
+            [createId()]: {
+              from: status.from,
+              to: status.to,
+              at: status.at,
+              actor: actor.name,
+              actorId: actor.uid,
+              note: status.note || null,
+            },
+          },
+        }
+      : state.bom_history;
+
+    return { ...state, bom_summary: { ...state.bom_summary, [componentMaterial]: record }, bom_history };
+  };
+
+  if (persist && typeof window !== 'undefined') {
+    // Keep several open tabs in step, like the realtime backend would
+    window.addEventListener('storage', (event) => {
+      if (event.key !== storageKey) return;
+      db = load();
+      listeners.forEach((listener) => listener());
+    });
+  }
+
+  const listen = (listener: () => void) => {
+    listeners.add(listener);
+    queueMicrotask(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    subscribe: (onChanges) => {
+      let previous: Record<string, BomRecord> = {};
+
+      // Records are replaced on write, so a reference check finds what changed
+      return listen(() => {
+        const current = db.bom_summary;
+        const changes: BomRecordChange[] = [];
+        Object.keys(current).forEach((key) => {
+          if (!previous[key]) {
+            changes.push({ type: 'added', key, record: current[key] });
+          } else if (previous[key] !== current[key]) {
+            changes.push({ type: 'changed', key, record: current[key] });
+          }
+        });
+        Object.keys(previous).forEach((key) => {
+          if (!current[key]) changes.push({ type: 'removed', key });
+        });
+        previous = current;
+        onChanges(changes);
+      });
+    },
+
+    subscribeHistory: (componentMaterial, onData) =>
+      listen(() => onData(db.bom_history[componentMaterial] || {})),
+
+    updateParts: async (updates, actor) => {
+      const conflicts: WriteConflict[] = [];
+      // All or nothing, like the Firebase update the revision rule rejects as a whole
+      updates.forEach((partUpdate) => {
+        const current = db.bom_summary[partUpdate.componentMaterial];
+        if (!current || isStaleUpdate(partUpdate, current)) {
+          conflicts.push({ componentMaterial: partUpdate.componentMaterial, update: partUpdate, server: current ?? null });
+        }
+      });
+      if (conflicts.length) throw new WriteConflictError(conflicts);
+      commit(updates.reduce((state, partUpdate) => applyPartUpdate(state, partUpdate, actor), db));
+    },
+
+    applyImport: async (changes, actor) => {
+      const bom_summary = { ...db.bom_summary };
+      const at = new Date().toISOString();
+      changes.forEach(({ componentMaterial, kind, fields }) => {
+        if (kind === 'removed') {
+          delete bom_summary[componentMaterial];
+          return;
+        }
+        const existing = bom_summary[componentMaterial];
+        bom_summary[componentMaterial] = {
+          ...existing,
+          ...fields,
+          ...(kind === 'changed' && { Revision: (existing?.Revision ?? 0) + 1 }),
+          Updated_By: actor.uid,
+          Updated_At: at,
+        };
+      });
+      commit({ ...db, bom_summary });
+    },
+
+    subscribeComments: (componentMaterial, onData) =>
+      listen(() => onData(db.bom_comments[componentMaterial] || {})),
+
+    subscribeCommentMeta: (onData) => listen(() => onData(db.bom_comment_meta)),
+
+    addComment: async (componentMaterial, text, actor) => {
+      const at = new Date().toISOString();
+      const meta = db.bom_comment_meta[componentMaterial];
+      commit({
+        ...db,
+        bom_comments: {
+          ...db.bom_comments,
+          [componentMaterial]: {
+            ...db.bom_comments[componentMaterial],
+            [createId()]: { text, author: actor.name, authorId: actor.uid, createdAt: at },
+          },
+        },
+        bom_comment_meta: {
+          ...db.bom_comment_meta,
+          [componentMaterial]: { count: (meta?.count || 0) + 1, lastCommentAt: at },
+        },
+      });
+    },
+
+    updateComment: async (componentMaterial, commentId, text, actor) => {
+      const existing = db.bom_comments[componentMaterial]?.[commentId];
+      if (!existing || existing.authorId !== actor.uid) {
+        throw new Error('Only the author can edit a comment');
+      }
+      commit({
+        ...db,
+        bom_comments: {
+          ...db.bom_comments,
+          [componentMaterial]: {
+            ...db.bom_comments[componentMaterial],
+            [commentId]: { ...existing, text, updatedAt: new Date().toISOString() },
+          },
+        },
+      });
+    },
+
+    deleteComment: async (componentMaterial, commentId, actor) => {
+      const existing = db.bom_comments[componentMaterial]?.[commentId];
+      if (!existing || existing.authorId !== actor.uid) {
+        throw new Error('Only the author can delete a comment');
+      }
+      const { [commentId]: _removed, ...remaining } = db.bom_comments[componentMaterial];
+      const meta = db.bom_comment_meta[componentMaterial];
+      commit({
+        ...db,
+        bom_comments: { ...db.bom_comments, [componentMaterial]: remaining },
+        bom_comment_meta: {
+          ...db.bom_comment_meta,
+          [componentMaterial]: { ...meta, count: Math.max((meta?.count || 1) - 1, 0) },
+        },
+      });
+    },
+
+    subscribeSnapshots: ({ from, to }, onData) =>
+      listen(() =>
+        onData(
+          Object.fromEntries(
+            Object.entries(db.bom_snapshots).filter(([date]) => date >= from && date <= to)
+          )
+        )
+      ),
+
+    saveDailySnapshot: async (date, snapshot) => {
+      if (db.bom_snapshots[date]) return false;
+      commit({ ...db, bom_snapshots: { ...db.bom_snapshots, [date]: snapshot } });
+      return true;
+    },
+
+    subscribeSuppliers: (onData) => listen(() => onData(db.suppliers)),
+
+    saveSupplier: async (supplierId, fields, actor) => {
+      const id = supplierId ?? createId();
+      commit({
+        ...db,
+        suppliers: {
+          ...db.suppliers,
+          [id]: { ...db.suppliers[id], ...fields, Updated_By: actor.uid, Updated_At: new Date().toISOString() },
+        },
+      });
+      return id;
+    },
+
+    deleteSupplier: async (supplierId, assignedParts, actor) => {
+      const { [supplierId]: _removed, ...suppliers } = db.suppliers;
+      const cleared = assignedParts.reduce(
+        (state, componentMaterial) =>
+          applyPartUpdate(state, { componentMaterial, fields: { Supplier_Id: null } }, actor),
+        db
+      );
+      commit({ ...cleared, suppliers });
+    },
+
+    subscribeExchangeRates: (onData) => listen(() => onData(db.exchange_rates)),
+
+    saveExchangeRate: async (rateId, fields, actor) => {
+      const id = rateId ?? createId();
+      commit({
+        ...db,
+        exchange_rates: {
+          ...db.exchange_rates,
+          [id]: { ...fields, Updated_By: actor.uid, Updated_At: new Date().toISOString() },
+        },
+      });
+      return id;
+    },
+
+    deleteExchangeRate: async (rateId) => {
+      const { [rateId]: _removed, ...exchange_rates } = db.exchange_rates;
+      commit({ ...db, exchange_rates });
+    },
+
+    getImageUrl: async (componentMaterial) => images.get(componentMaterial) ?? null,
+
+    uploadImage: async (componentMaterial, image) => {
+      const previous = images.get(componentMaterial);
+      if (previous) URL.revokeObjectURL(previous);
+      const url = URL.createObjectURL(image);
+      images.set(componentMaterial, url);
+      return url;
+    },
+
+    listAttachments: async (componentMaterial) => attachments.get(componentMaterial) ?? [],
+
+    uploadAttachment: async (componentMaterial, { file, category }, actor, onProgress) => {
+      const now = new Date();
+      const attachment: PartAttachment = {
+        id: createAttachmentId(file.name, now),
+        name: file.name,
+        category,
+        contentType: file.type || 'application/octet-stream',
+        size: file.size,
+        uploadedBy: actor.name,
+        uploadedById: actor.uid,
+        uploadedAt: now.toISOString(),
+        url: URL.createObjectURL(file),
+      };
+      attachments.set(componentMaterial, [attachment, ...(attachments.get(componentMaterial) ?? [])]);
+      onProgress?.(1);
+      return attachment;
+    },
+
+    deleteAttachment: async (componentMaterial, attachmentId) => {
+      const current = attachments.get(componentMaterial) ?? [];
+      const removed = current.find((attachment) => attachment.id === attachmentId);
+      if (removed) URL.revokeObjectURL(removed.url);
+      attachments.set(
+        componentMaterial,
+        current.filter((attachment) => attachment.id !== attachmentId)
+      );
+    },
+  };
+};
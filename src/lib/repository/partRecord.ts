@@ -0,0 +1,44 @@
+import { BomRecord, PartUpdate, WriteActor } from './types';
+
+/** One part whose stored revision moved on after the change was made */
+export interface WriteConflict {
+  componentMaterial: string;
+  update: PartUpdate;
+  /** The record as stored now; `null` when the part was removed */
+  server: BomRecord | null;
+}
+
+/** Rejects `updateParts`; none of the write's parts were saved */
+export class WriteConflictError extends Error {
+  constructor(readonly conflicts: WriteConflict[]) {
+    super(`${conflicts.map((conflict) => conflict.componentMaterial).join(', ')} changed since the edit was made`);
+    this.name = 'WriteConflictError';
+  }
+}
+
+export const isStaleUpdate = ({ expectedRevision }: PartUpdate, current: BomRecord) =>
+  expectedRevision !== undefined && (current.Revision ?? 0) !== expectedRevision;
+
+/**
+ * The record after one part's fields and status are applied. Cleared fields are
+ * dropped and the revision moves on, so the next writer can tell it changed.
+ */
+export const mergePartUpdate = (
+  existing: BomRecord,
+  { fields, status }: PartUpdate,
+  actor: WriteActor
+): BomRecord => {
+  const record: BomRecord = {
+    ...existing,
+    ...fields,
+    ...status?.details,
+    ...(status && { Transfer_Status: status.to, Status_UpdatedAt: status.at }),
+    Revision: (existing.Revision ?? 0) + 1,
+    Updated_By: actor.uid,
+    Updated_At: status?.at ?? new Date().toISOString(),
+  } as BomRecord;
+  Object.keys(record).forEach((field) => {
+    if (record[field] === null || record[field] === undefined) delete record[field];
+  });
+  return record;
+};
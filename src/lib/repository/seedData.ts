@@ -0,0 +1,86 @@
+import { BomRecord } from './types';
+
+/** Demo parts used by the local backend when no saved data exists */
+export const seedBomSummary: Record<string, BomRecord> = {
+  '100012345': {
+    Description_EN: 'Hinge, stainless door 90 degree',
+    Kanban_Flag: 'Kanban',
+    Latest_Component_Date: '2025-03-14',
+    Standard_Price: 12.4,
+    Total_Qty: 1200,
+    Transfer_Status: 'Finished',
+    Status_UpdatedAt: '2025-04-02T03:15:00.000Z',
+    Quote_Price: 38.5,
+    Quote_Currency: 'CNY',
+  },
+  '100012388': {
+    Description_EN: 'Bracket, mounting steel zinc plated',
+    Kanban_Flag: 'Kanban',
+    Latest_Component_Date: '2025-06-20',
+    Standard_Price: 4.85,
+    Total_Qty: 5400,
+    Transfer_Status: 'Finished',
+    Status_UpdatedAt: '2025-07-11T01:20:00.000Z',
+    Quote_Price: 1.9,
+    Quote_Currency: 'USD',
+  },
+  '100013002': {
+    Description_EN: 'Latch assembly, compression lockable',
+    Kanban_Flag: '',
+    Latest_Component_Date: '2025-08-05',
+    Standard_Price: 38.2,
+    Total_Qty: 320,
+    Transfer_Status: 'In Progress',
+    Status_UpdatedAt: '2025-09-01T05:00:00.000Z',
+    Expected_Completion: '2025-11-01T00:00:00.000Z',
+    Quote_Price: 120,
+    Quote_Currency: 'CNY',
+  },
+  '100013117': {
+    Description_EN: 'Gas strut 400N 350mm',
+    Kanban_Flag: 'Kanban',
+    Latest_Component_Date: '2025-07-28',
+    Standard_Price: 21.6,
+    Total_Qty: 860,
+    Transfer_Status: 'In Progress',
+    Status_UpdatedAt: '2025-08-19T22:40:00.000Z',
+    Expected_Completion: '2026-02-01T00:00:00.000Z',
+  },
+  '100014550': {
+    Description_EN: 'Seal, EPDM extrusion 12x8 per metre',
+    Kanban_Flag: '',
+    Latest_Component_Date: '2025-05-02',
+    Standard_Price: 2.3,
+    Total_Qty: 9800,
+    Transfer_Status: 'Not Start',
+    Planned_Start: '2026-01-01T00:00:00.000Z',
+  },
+  '100014602': {
+    Description_EN: 'Handle, recessed flush black',
+    Kanban_Flag: 'Kanban',
+    Latest_Component_Date: '2025-09-12',
+    Standard_Price: 9.75,
+    Total_Qty: 2100,
+    Transfer_Status: 'Not Start',
+  },
+  '100015010': {
+    Description_EN: 'Wiring loom, 12V tail light',
+    Kanban_Flag: '',
+    Latest_Component_Date: '2025-04-18',
+    Standard_Price: 64.0,
+    Total_Qty: 150,
+    Transfer_Status: 'Not Start',
+    Planned_Start: '2026-03-01T00:00:00.000Z',
+  },
+  '100015777': {
+    Description_EN: 'Water pump, 12V 11LPM',
+    Kanban_Flag: '',
+    Latest_Component_Date: '2025-02-26',
+    Standard_Price: 118.5,
+    Total_Qty: 90,
+    Transfer_Status: 'Not to Transfer',
+    Status_UpdatedAt: '2025-03-10T00:00:00.000Z',
+    NotToTransferReason: 'Certified supplier required',
+    Brand: 'Shurflo',
+  },
+};
@@ -0,0 +1,230 @@
+import type { UserRole } from '@/lib/auth/types';
+import { AttachmentCategory, BomSnapshot, CurrencyCode, ExchangeRate, PartAttachment, Supplier, TransferStatus } from '@/types/bom';
+
+export type Unsubscribe = () => void;
+
+/** Raw `bom_summary/{material}` record as stored by the backend */
+export interface BomRecord {
+  Description_EN?: string;
+  Kanban_Flag?: string;
+  Latest_Component_Date?: string;
+  Standard_Price?: number | string;
+  Total_Qty?: number | string;
+  Transfer_Status?: TransferStatus;
+  Status_UpdatedAt?: string;
+  Expected_Completion?: string;
+  NotToTransferReason?: string;
+  Brand?: string;
+  Planned_Start?: string;
+  Supplier_Id?: string;
+  Quote_Price?: number | string;
+  Quote_Currency?: string;
+  /** Moves on with every transfer write; checked to detect concurrent edits */
+  Revision?: number;
+  Updated_By?: string;
+  Updated_At?: string;
+}
+
+/** Raw `exchange_rates/{id}` record */
+export interface ExchangeRateRecord {
+  currency?: string;
+  audPerUnit?: number | string;
+  effectiveFrom?: string;
+  Updated_By?: string;
+  Updated_At?: string;
+}
+
+/** Raw `suppliers/{id}` record */
+export interface SupplierRecord {
+  name?: string;
+  location?: string;
+  contact?: string;
+  currency?: string;
+  leadTimeDays?: number | string;
+  Updated_By?: string;
+  Updated_At?: string;
+}
+
+/** Raw `bom_history/{material}/{id}` record */
+export interface StatusHistoryRecord {
+  from?: TransferStatus;
+  to?: TransferStatus;
+  at?: string;
+  actor?: string;
+  actorId?: string;
+  note?: string | null;
+}
+
+export interface AttachmentUpload {
+  file: File;
+  category: AttachmentCategory;
+}
+
+/** Raw `bom_comments/{material}/{id}` record */
+export interface CommentRecord {
+  text?: string;
+  author?: string;
+  authorId?: string;
+  createdAt?: string;
+  updatedAt?: string | null;
+}
+
+/** Raw `bom_comment_meta/{material}` record, kept in step with the thread */
+export interface CommentMetaRecord {
+  count?: number;
+  lastCommentAt?: string;
+  /** Comment added or deleted by the last count change; the rules check it against `bom_comments` */
+  changedComment?: string;
+}
+
+/** Raw `bom_snapshots/{yyyy-MM-dd}` record; the date is the key */
+export type SnapshotRecord = Omit<BomSnapshot, 'date'>;
+
+/** Inclusive range of snapshot dates (yyyy-MM-dd) */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+/** One child-level change to `bom_summary` */
+export type BomRecordChange =
+  | { type: 'added' | 'changed'; key: string; record: BomRecord }
+  | { type: 'removed'; key: string };
+
+/** Signed-in user a write is attributed to */
+export interface WriteActor {
+  uid: string;
+  name: string;
+  /** Role when the change was made; queued writes are re-checked against the transition rules with it */
+  role?: UserRole;
+}
+
+export interface StatusChange {
+  from: TransferStatus;
+  to: TransferStatus;
+  at: string;
+  note?: string;
+  /** Fields required by the transition, written together with the status */
+  details?: TransferFields;
+}
+
+export interface DateUpdates {
+  Planned_Start?: string | null;
+  Expected_Completion?: string | null;
+}
+
+export interface HoldDetails {
+  NotToTransferReason: string;
+  Brand: string;
+}
+
+export interface SupplierAssignment {
+  Supplier_Id?: string | null;
+}
+
+export interface QuoteFields {
+  Quote_Price?: number | null;
+  Quote_Currency?: CurrencyCode | null;
+}
+
+/** Editable transfer fields of a part */
+export type TransferFields = DateUpdates & Partial<HoldDetails> & SupplierAssignment & QuoteFields;
+
+/** One part's share of a multi-part write */
+export interface PartUpdate {
+  componentMaterial: string;
+  fields?: TransferFields;
+  status?: StatusChange;
+  /** Revision the change was made against; the part is not written when the stored one differs */
+  expectedRevision?: number;
+}
+
+/** Fields owned by the SAP extract rather than by this app */
+export type MasterDataFields = Partial<
+  Pick<BomRecord, 'Description_EN' | 'Kanban_Flag' | 'Latest_Component_Date' | 'Standard_Price' | 'Total_Qty'>
+>;
+
+/** An approved change from a BoM import */
+export interface ImportChange {
+  componentMaterial: string;
+  kind: 'added' | 'changed' | 'removed';
+  fields?: MasterDataFields;
+}
+
+/** Storage-agnostic access to the transfer data; write methods reject on failure */
+export interface BomRepository {
+  /**
+   * Streams child-level changes in batches. The first batch carries the initial
+   * records and is delivered even when there are none.
+   */
+  subscribe: (
+    onChanges: (changes: BomRecordChange[]) => void,
+    onError: (error: Error) => void
+  ) => Unsubscribe;
+  subscribeHistory: (
+    componentMaterial: string,
+    onData: (records: Record<string, StatusHistoryRecord>) => void,
+    onError: (error: Error) => void
+  ) => Unsubscribe;
+  /**
+   * Writes every part, with its status history, in one atomic update checked against
+   * each part's revision. When someone else edited any of them in the meantime nothing
+   * is written, and the changed parts are reported in a `WriteConflictError`.
+   */
+  updateParts: (updates: PartUpdate[], actor: WriteActor) => Promise<void>;
+  /**
+   * Writes approved import changes atomically, touching only master-data fields. Changed
+   * parts move on a revision, so transfer edits made before the import conflict.
+   */
+  applyImport: (changes: ImportChange[], actor: WriteActor) => Promise<void>;
+  subscribeComments: (
+    componentMaterial: string,
+    onData: (records: Record<string, CommentRecord>) => void,
+    onError: (error: Error) => void
+  ) => Unsubscribe;
+  subscribeCommentMeta: (
+    onData: (records: Record<string, CommentMetaRecord>) => void,
+    onError: (error: Error) => void
+  ) => Unsubscribe;
+  /** Comment writes update the part's comment meta in the same write */
+  addComment: (componentMaterial: string, text: string, actor: WriteActor) => Promise<void>;
+  updateComment: (componentMaterial: string, commentId: string, text: string, actor: WriteActor) => Promise<void>;
+  deleteComment: (componentMaterial: string, commentId: string, actor: WriteActor) => Promise<void>;
+  subscribeSnapshots: (
+    range: DateRange,
+    onData: (records: Record<string, SnapshotRecord>) => void,
+    onError: (error: Error) => void
+  ) => Unsubscribe;
+  /** Writes the day's snapshot unless one exists; resolves `false` when it already did */
+  saveDailySnapshot: (date: string, snapshot: SnapshotRecord) => Promise<boolean>;
+  subscribeSuppliers: (
+    onData: (records: Record<string, SupplierRecord>) => void,
+    onError: (error: Error) => void
+  ) => Unsubscribe;
+  /** Creates the supplier when `supplierId` is null; resolves its id */
+  saveSupplier: (supplierId: string | null, fields: Omit<Supplier, 'id'>, actor: WriteActor) => Promise<string>;
+  /** Removes the supplier and clears it from the given parts in the same write */
+  deleteSupplier: (supplierId: string, assignedParts: string[], actor: WriteActor) => Promise<void>;
+  subscribeExchangeRates: (
+    onData: (records: Record<string, ExchangeRateRecord>) => void,
+    onError: (error: Error) => void
+  ) => Unsubscribe;
+  /** Creates the rate when `rateId` is null; resolves its id */
+  saveExchangeRate: (rateId: string | null, fields: Omit<ExchangeRate, 'id'>, actor: WriteActor) => Promise<string>;
+  deleteExchangeRate: (rateId: string) => Promise<void>;
+  /** Resolves `null` when the part has no image; rejects when the lookup itself fails */
+  getImageUrl: (componentMaterial: string) => Promise<string | null>;
+  /**
+   * Stores a PNG, WebP or JPEG as the part's image, replacing any existing one, and
+   * resolves its new URL. The stored name stays `{material}.png` whatever the format.
+   */
+  uploadImage: (componentMaterial: string, image: Blob, actor: WriteActor) => Promise<string>;
+  listAttachments: (componentMaterial: string) => Promise<PartAttachment[]>;
+  uploadAttachment: (
+    componentMaterial: string,
+    upload: AttachmentUpload,
+    actor: WriteActor,
+    onProgress?: (fraction: number) => void
+  ) => Promise<PartAttachment>;
+  deleteAttachment: (componentMaterial: string, attachmentId: string) => Promise<void>;
+}
@@ -0,0 +1,21 @@
+import { TransferStatus } from '@/types/bom';
+
+export const TAB_KEYS = ['completed', 'plan', 'current', 'remaining', 'report'] as const;
+
+export type TabKey = (typeof TAB_KEYS)[number];
+
+export const isTabKey = (value?: string): value is TabKey => TAB_KEYS.includes(value as TabKey);
+
+/** Dashboard tab listing parts in each status */
+export const TAB_FOR_STATUS: Record<TransferStatus, TabKey> = {
+  Finished: 'completed',
+  'In Progress': 'plan',
+  'Not Start': 'current',
+  'Not to Transfer': 'remaining',
+};
+
+export const tabPath = (tab: TabKey) => `/${tab}`;
+
+/** `section` scrolls the part page to one of its cards, e.g. `transfer` */
+export const partPath = (componentMaterial: string, section?: string) =>
+  `/parts/${encodeURIComponent(componentMaterial)}${section ? `#${section}` : ''}`;
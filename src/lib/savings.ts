@@ -0,0 +1,55 @@
+import { BomItem, CurrencyCode } from '@/types/bom';
+
+/** Converts a quote into AUD, the currency Standard_Price is held in */
+export type ToAud = (amount: number, currency: CurrencyCode) => number;
+
+export interface PartSavings {
+  /** Quoted unit price converted to AUD */
+  quoteUnitAud: number;
+  unitSaving: number;
+  /** Unit saving across the part's total quantity */
+  saving: number;
+  /** Saving as a share of the AU value; negative when the quote is dearer */
+  savingRatio: number;
+}
+
+export interface SavingsSummary {
+  quotedParts: number;
+  /** AU value of the quoted parts */
+  standardValue: number;
+  quotedValue: number;
+  saving: number;
+  savingRatio: number;
+}
+
+export const hasQuote = (item: BomItem) => item.Quote_Price !== undefined && item.Quote_Price > 0;
+
+/** `null` for parts without a quote */
+export const getPartSavings = (item: BomItem, toAud: ToAud): PartSavings | null => {
+  if (!hasQuote(item)) return null;
+
+  const quoteUnitAud = toAud(item.Quote_Price!, item.Quote_Currency || 'CNY');
+  const unitSaving = item.Standard_Price - quoteUnitAud;
+  return {
+    quoteUnitAud,
+    unitSaving,
+    saving: unitSaving * item.Total_Qty,
+    savingRatio: item.Standard_Price > 0 ? unitSaving / item.Standard_Price : 0,
+  };
+};
+
+export const summarizeSavings = (items: BomItem[], toAud: ToAud): SavingsSummary => {
+  const summary = items.reduce(
+    (totals, item) => {
+      const savings = getPartSavings(item, toAud);
+      if (!savings) return totals;
+      totals.quotedParts += 1;
+      totals.standardValue += item.Value;
+      totals.quotedValue += savings.quoteUnitAud * item.Total_Qty;
+      totals.saving += savings.saving;
+      return totals;
+    },
+    { quotedParts: 0, standardValue: 0, quotedValue: 0, saving: 0 }
+  );
+  return { ...summary, savingRatio: summary.standardValue > 0 ? summary.saving / summary.standardValue : 0 };
+};
@@ -0,0 +1,68 @@
+import { CurrencyCode } from '@/types/bom';
+
+export interface AppSettings {
+  /** Month the fiscal year starts in, 0 = January; Australian fiscal years start in July */
+  fiscalYearStartMonth: number;
+  /** Currency every amount is shown in; stored prices stay in AUD */
+  displayCurrency: CurrencyCode;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  fiscalYearStartMonth: 6,
+  displayCurrency: 'AUD',
+};
+
+const STORAGE_KEY = 'bom-transfer-settings';
+
+export interface SettingsStore {
+  get: () => AppSettings;
+  update: (changes: Partial<AppSettings>) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/** Per-browser preferences persisted to localStorage and shared across open tabs */
+export const createSettingsStore = (storageKey = STORAGE_KEY): SettingsStore => {
+  const listeners = new Set<() => void>();
+
+  const load = (): AppSettings => {
+    try {
+      const stored = localStorage.getItem(storageKey);
+      return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+    } catch (err) {
+      console.error('Error reading settings:', err);
+      return DEFAULT_SETTINGS;
+    }
+  };
+
+  let settings = load();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  window.addEventListener('storage', (event) => {
+    if (event.key !== storageKey) return;
+    settings = load();
+    notify();
+  });
+
+  return {
+    get: () => settings,
+
+    update: (changes) => {
+      settings = { ...settings, ...changes };
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(settings));
+      } catch (err) {
+        console.error('Error saving settings:', err);
+      }
+      notify();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+export const settingsStore = createSettingsStore();
@@ -0,0 +1,51 @@
+import { format, isBefore, isValid, parseISO, startOfMonth } from 'date-fns';
+import { isTransferStatus } from '@/lib/dataQuality';
+import { BomItem, BomSnapshot, SnapshotTotals, TransferStatus } from '@/types/bom';
+
+const emptyTotals = (): SnapshotTotals => ({ parts: 0, qty: 0, value: 0 });
+
+const addTo = (totals: SnapshotTotals, item: BomItem) => {
+  totals.parts += 1;
+  totals.qty += item.Total_Qty || 0;
+  totals.value += item.Value || 0;
+};
+
+// Same rule as the Plan tab: the expected completion month has already started
+const isDelayedPlan = (item: BomItem, now: Date) => {
+  if (item.Transfer_Status !== 'In Progress' || !item.Expected_Completion) return false;
+  const expected = parseISO(item.Expected_Completion);
+  return isValid(expected) && isBefore(startOfMonth(expected), now);
+};
+
+export const snapshotDate = (now = new Date()) => format(now, 'yyyy-MM-dd');
+
+/** Aggregates the current parts into the day's KPI snapshot */
+export const buildBomSnapshot = (items: BomItem[], now = new Date()): BomSnapshot => {
+  const statusTotals: Record<TransferStatus, SnapshotTotals> = {
+    'Not Start': emptyTotals(),
+    'In Progress': emptyTotals(),
+    Finished: emptyTotals(),
+    'Not to Transfer': emptyTotals(),
+  };
+  const unknownStatus = emptyTotals();
+  const kanban = emptyTotals();
+  const nonKanban = emptyTotals();
+  let delayedPlans = 0;
+
+  items.forEach((item) => {
+    const status = item.Transfer_Status || 'Not Start';
+    addTo(isTransferStatus(status) ? statusTotals[status] : unknownStatus, item);
+    addTo(item.Is_Kanban ? kanban : nonKanban, item);
+    if (isDelayedPlan(item, now)) delayedPlans += 1;
+  });
+
+  return {
+    date: snapshotDate(now),
+    capturedAt: now.toISOString(),
+    statusTotals,
+    unknownStatus,
+    kanban,
+    nonKanban,
+    delayedPlans,
+  };
+};
@@ -0,0 +1,47 @@
+import { BomItem, Supplier, TransferStatus } from '@/types/bom';
+
+/** Only parts that are moving or have moved to a supplier can be assigned one */
+export const SUPPLIER_STATUSES: TransferStatus[] = ['In Progress', 'Finished'];
+
+export const canHaveSupplier = (status: TransferStatus | undefined) =>
+  SUPPLIER_STATUSES.includes(status || 'Not Start');
+
+export interface SupplierGroup {
+  /** `null` collects In Progress and Finished parts without a supplier */
+  supplier: Supplier | null;
+  items: BomItem[];
+  inProgressValue: number;
+  finishedValue: number;
+  totalValue: number;
+}
+
+/**
+ * Groups the parts that can carry a supplier by their assignment, largest
+ * transfer value first; unassigned parts come last.
+ */
+export const groupBySupplier = (items: BomItem[], suppliers: Supplier[]): SupplierGroup[] => {
+  const byId = new Map(suppliers.map((supplier) => [supplier.id, supplier]));
+  const groups = new Map<string, SupplierGroup>(
+    suppliers.map((supplier) => [
+      supplier.id,
+      { supplier, items: [], inProgressValue: 0, finishedValue: 0, totalValue: 0 },
+    ])
+  );
+  const unassigned: SupplierGroup = { supplier: null, items: [], inProgressValue: 0, finishedValue: 0, totalValue: 0 };
+
+  items
+    .filter((item) => canHaveSupplier(item.Transfer_Status))
+    .forEach((item) => {
+      const group = (item.Supplier_Id && byId.has(item.Supplier_Id) && groups.get(item.Supplier_Id)) || unassigned;
+      group.items.push(item);
+      group.totalValue += item.Value || 0;
+      if (item.Transfer_Status === 'Finished') {
+        group.finishedValue += item.Value || 0;
+      } else {
+        group.inProgressValue += item.Value || 0;
+      }
+    });
+
+  const assigned = Array.from(groups.values()).sort((a, b) => b.totalValue - a.totalValue);
+  return unassigned.items.length ? [...assigned, unassigned] : assigned;
+};
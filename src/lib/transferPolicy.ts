@@ -0,0 +1,100 @@
+import { BomItem, TransferStatus } from '@/types/bom';
+
+/** Details a user can supply alongside a status change */
+export interface TransitionInput {
+  note?: string;
+  expectedCompletion?: string | null;
+  reason?: string;
+  brand?: string;
+}
+
+export type TransitionRequirement = 'expectedCompletion' | 'reason' | 'justification';
+
+export interface TransitionContext {
+  item: Pick<BomItem, 'Expected_Completion' | 'NotToTransferReason' | 'Brand'>;
+  from: TransferStatus;
+  to: TransferStatus;
+  input: TransitionInput;
+  canRevertFinished: boolean;
+}
+
+export interface TransitionRule {
+  id: string;
+  /** Shown to the user when the rule blocks a change */
+  message: string;
+  appliesTo: (from: TransferStatus, to: TransferStatus) => boolean;
+  /** Input that satisfies the rule; rules without one cannot be satisfied by the user */
+  requirement?: TransitionRequirement;
+  isSatisfied: (context: TransitionContext) => boolean;
+}
+
+export interface TransitionResult {
+  allowed: boolean;
+  violations: TransitionRule[];
+}
+
+const hasText = (value?: string | null) => !!value && value.trim().length > 0;
+
+export const TRANSITION_RULES: TransitionRule[] = [
+  {
+    id: 'revert-finished-admin',
+    message: 'Only admins can move a Finished part back to another status.',
+    appliesTo: (from, to) => from === 'Finished' && to !== 'Finished',
+    isSatisfied: ({ canRevertFinished }) => canRevertFinished,
+  },
+  {
+    id: 'revert-finished-justification',
+    message: 'Leaving Finished requires a justification.',
+    appliesTo: (from, to) => from === 'Finished' && to !== 'Finished',
+    requirement: 'justification',
+    isSatisfied: ({ input }) => hasText(input.note),
+  },
+  {
+    id: 'in-progress-expected-completion',
+    message: 'In Progress requires an expected completion month.',
+    appliesTo: (_from, to) => to === 'In Progress',
+    requirement: 'expectedCompletion',
+    // `null` clears the date; only a date that was not given falls back to the stored one
+    isSatisfied: ({ item, input }) =>
+      hasText(input.expectedCompletion !== undefined ? input.expectedCompletion : item.Expected_Completion),
+  },
+  {
+    id: 'not-to-transfer-reason',
+    message: 'Not to Transfer requires a reason for holding the part in AU.',
+    appliesTo: (_from, to) => to === 'Not to Transfer',
+    requirement: 'reason',
+    isSatisfied: ({ item, input }) => hasText(input.reason ?? item.NotToTransferReason),
+  },
+];
+
+export const evaluateTransition = (context: TransitionContext): TransitionResult => {
+  if (context.from === context.to) {
+    return { allowed: true, violations: [] };
+  }
+
+  const violations = TRANSITION_RULES.filter(
+    (rule) => rule.appliesTo(context.from, context.to) && !rule.isSatisfied(context)
+  );
+  return { allowed: violations.length === 0, violations };
+};
+
+/**
+ * Checks an edit that keeps the part's status against what that status requires, so
+ * clearing a required field is refused just like moving there without it.
+ */
+export const evaluateFieldEdit = ({
+  item,
+  status,
+  input,
+}: Pick<TransitionContext, 'item' | 'input'> & { status: TransferStatus }): TransitionResult => {
+  const context: TransitionContext = { item, from: status, to: status, input, canRevertFinished: false };
+  const violations = TRANSITION_RULES.filter((rule) => rule.appliesTo(status, status) && !rule.isSatisfied(context));
+  return { allowed: violations.length === 0, violations };
+};
+
+/** Rules the user cannot satisfy by entering details, e.g. missing permissions */
+export const getBlockingViolations = (result: TransitionResult) =>
+  result.violations.filter((rule) => !rule.requirement);
+
+export const getMissingRequirements = (result: TransitionResult): TransitionRequirement[] =>
+  result.violations.flatMap((rule) => (rule.requirement ? [rule.requirement] : []));
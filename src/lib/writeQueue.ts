@@ -0,0 +1,358 @@
+import { authService } from '@/lib/auth';
+import { mapBomRecord } from '@/lib/bomRecord';
+import { hasPermission } from '@/lib/permissions';
+import {
+  activeBackend,
+  bomRepository,
+  PartUpdate,
+  WriteActor,
+  WriteConflict,
+  WriteConflictError,
+} from '@/lib/repository';
+import { evaluateTransition } from '@/lib/transferPolicy';
+
+/**
+ * `pending` writes wait for their turn or the connection, `syncing` is in flight,
+ * `failed` was rejected while online and `conflict` met parts someone else changed
+ * first; failed and conflicting writes are no longer applied.
+ */
+export type QueuedWriteState = 'pending' | 'syncing' | 'failed' | 'conflict';
+
+/** Which side of a conflict is kept */
+export type ConflictResolution = 'mine' | 'theirs';
+
+export interface QueuedWrite {
+  id: string;
+  /** Shown in toasts, e.g. "PART-1 moved to Finished" */
+  label: string;
+  updates: PartUpdate[];
+  /** Puts the parts back as they were; missing when the change cannot be undone */
+  inverse?: PartUpdate[];
+  actor: WriteActor;
+  createdAt: string;
+  state: QueuedWriteState;
+  /** Set once the write had to wait for the connection */
+  offline?: boolean;
+  error?: string;
+  /** Parts that changed on the server, which kept the whole write from being saved */
+  conflicts?: WriteConflict[];
+}
+
+export type WriteQueueEvent =
+  | { type: 'applied' | 'queued' | 'synced' | 'failed' | 'conflict'; write: QueuedWrite }
+  | { type: 'undone'; write: QueuedWrite; reverted: boolean };
+
+export interface NewWrite {
+  label: string;
+  updates: PartUpdate[];
+  inverse?: PartUpdate[];
+  actor: WriteActor;
+}
+
+interface WriteQueueOptions {
+  write: (updates: PartUpdate[], actor: WriteActor) => Promise<void>;
+  storageKey: string;
+  /** Reports the signed-in user's id, `null` when signed out; nothing is sent before the first report */
+  subscribeUser: (onUser: (uid: string | null) => void) => void;
+  isOnline?: () => boolean;
+}
+
+export interface WriteQueue {
+  /**
+   * The signed-in user's writes not yet confirmed, oldest first; the same array until
+   * the queue changes. Writes queued by anyone else stay stored until they sign in again.
+   */
+  get: () => QueuedWrite[];
+  enqueue: (write: NewWrite) => QueuedWrite;
+  /**
+   * Drops a write that has not gone out, or queues its inverse once it has. Refused
+   * while later queued writes to the same parts depend on the dropped one.
+   */
+  undo: (writeId: string) => boolean;
+  retry: (writeId: string) => void;
+  discard: (writeId: string) => void;
+  /**
+   * Sends a conflicting write again, either without its conflicting parts or with them
+   * over the version saved now. Parts whose change the transition rules no longer allow
+   * stay in conflict and are never sent.
+   */
+  resolveConflict: (writeId: string, keep: ConflictResolution) => void;
+  subscribe: (listener: () => void) => () => void;
+  /** Outcome notifications for the toaster */
+  onEvent: (listener: (event: WriteQueueEvent) => void) => () => void;
+}
+
+const createWriteId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Rule messages that stop a conflicting change from being written over the saved
+ * version. The move now starts from the saved status and is checked as the write's actor.
+ */
+export const overwriteViolations = ({ componentMaterial, update, server }: WriteConflict, actor: WriteActor) => {
+  if (!server) return [`${componentMaterial} was removed.`];
+  const from = server.Transfer_Status || 'Not Start';
+  if (!update.status || update.status.to === from) return [];
+
+  const details = update.status.details ?? {};
+  const result = evaluateTransition({
+    item: mapBomRecord(componentMaterial, server),
+    from,
+    to: update.status.to,
+    input: {
+      note: update.status.note,
+      expectedCompletion: details.Expected_Completion,
+      reason: details.NotToTransferReason,
+      brand: details.Brand,
+    },
+    canRevertFinished: !!actor.role && hasPermission(actor.role, 'revertFinished'),
+  });
+  return result.violations.map((rule) => rule.message);
+};
+
+// Overwriting is checked against the revision just shown, so a third edit is still caught
+const rebaseOnServer = ({ update, server }: WriteConflict): PartUpdate => {
+  const expectedRevision = server?.Revision ?? 0;
+  const from = server?.Transfer_Status || 'Not Start';
+  if (!update.status) return { ...update, expectedRevision };
+  // The other buyer already made the same move; only the details are still ours to write
+  if (update.status.to === from) {
+    const { componentMaterial, fields, status } = update;
+    return { componentMaterial, fields: { ...fields, ...status.details }, expectedRevision };
+  }
+  return { ...update, status: { ...update.status, from }, expectedRevision };
+};
+
+/**
+ * Applies transfer writes in order, one at a time. The queue is persisted, so writes
+ * made offline survive a reload and go out once the browser is back online; confirmed
+ * writes stay undoable for the rest of the session. Each write is sent only while the
+ * user who made it is signed in, as the backend checks it against that user.
+ */
+export const createWriteQueue = ({
+  write,
+  storageKey,
+  subscribeUser,
+  isOnline = () => navigator.onLine,
+}: WriteQueueOptions): WriteQueue => {
+  const listeners = new Set<() => void>();
+  const eventListeners = new Set<(event: WriteQueueEvent) => void>();
+  // Inverses of confirmed writes, kept in memory only
+  const confirmed = new Map<string, QueuedWrite>();
+  let writes: QueuedWrite[] = [];
+  let ownWrites: QueuedWrite[] = [];
+  // `undefined` until the auth session is restored
+  let userId: string | null | undefined;
+  let flushing = false;
+
+  const isOwn = (entry: QueuedWrite) => !!userId && entry.actor.uid === userId;
+  const nextPending = () => writes.find((entry) => entry.state === 'pending' && isOwn(entry));
+
+  try {
+    const stored = localStorage.getItem(storageKey);
+    // A write that was in flight when the page closed may not have landed; send it again
+    if (stored) {
+      writes = (JSON.parse(stored) as QueuedWrite[]).map((entry) => ({
+        ...entry,
+        state: entry.state === 'syncing' ? 'pending' : entry.state,
+      }));
+    }
+  } catch (err) {
+    console.error('Error reading write queue:', err);
+  }
+
+  const notify = () => {
+    ownWrites = writes.filter(isOwn);
+    listeners.forEach((listener) => listener());
+  };
+
+  const setWrites = (next: QueuedWrite[]) => {
+    writes = next;
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(writes));
+    } catch (err) {
+      console.error('Error saving write queue:', err);
+    }
+    notify();
+  };
+
+  const patchWrite = (writeId: string, changes: Partial<QueuedWrite>) => {
+    const next = writes.map((entry) => (entry.id === writeId ? { ...entry, ...changes } : entry));
+    setWrites(next);
+    return next.find((entry) => entry.id === writeId)!;
+  };
+
+  const emit = (event: WriteQueueEvent) => eventListeners.forEach((listener) => listener(event));
+
+  const flush = async () => {
+    if (flushing) return;
+    flushing = true;
+
+    let next = nextPending();
+    while (next && isOnline()) {
+      const current = patchWrite(next.id, { state: 'syncing' });
+      try {
+        await write(current.updates, current.actor);
+        setWrites(writes.filter((entry) => entry.id !== current.id));
+        confirmed.set(current.id, current);
+        emit({ type: 'synced', write: current });
+      } catch (err) {
+        if (err instanceof WriteConflictError) {
+          // Nothing was saved; the whole write waits for a decision on the conflicting parts
+          const conflicting = patchWrite(current.id, { state: 'conflict', conflicts: err.conflicts });
+          emit({ type: 'conflict', write: conflicting });
+          next = nextPending();
+          continue;
+        }
+        console.error('Error syncing queued write:', err);
+        if (!isOnline()) {
+          emit({ type: 'queued', write: patchWrite(current.id, { state: 'pending', offline: true }) });
+          break;
+        }
+        const failed = patchWrite(current.id, {
+          state: 'failed',
+          error: err instanceof Error ? err.message : String(err),
+        });
+        emit({ type: 'failed', write: failed });
+      }
+      next = nextPending();
+    }
+
+    flushing = false;
+  };
+
+  const enqueue = ({ label, updates, inverse, actor }: NewWrite) => {
+    const offline = !isOnline();
+    const entry: QueuedWrite = {
+      id: createWriteId(),
+      label,
+      updates,
+      inverse,
+      actor,
+      createdAt: new Date().toISOString(),
+      state: 'pending',
+      offline,
+    };
+    setWrites([...writes, entry]);
+    emit({ type: offline ? 'queued' : 'applied', write: entry });
+    flush();
+    return entry;
+  };
+
+  // Later writes to the same parts were made, and revision-checked, as if this one had landed
+  const hasDependents = (queued: QueuedWrite) => {
+    const parts = new Set(queued.updates.map((update) => update.componentMaterial));
+    return writes
+      .slice(writes.indexOf(queued) + 1)
+      .some((entry) => entry.updates.some((update) => parts.has(update.componentMaterial)));
+  };
+
+  const undo = (writeId: string) => {
+    const queued = ownWrites.find((entry) => entry.id === writeId);
+    if (queued && queued.state !== 'syncing') {
+      if (hasDependents(queued)) return false;
+      setWrites(writes.filter((entry) => entry.id !== writeId));
+      emit({ type: 'undone', write: queued, reverted: false });
+      return true;
+    }
+
+    const original = queued ?? confirmed.get(writeId);
+    if (!original?.inverse || !isOwn(original)) return false;
+    confirmed.delete(writeId);
+
+    // Status changes made by the undo are dated now, not when the original was made
+    const at = new Date().toISOString();
+    enqueue({
+      label: `Undo: ${original.label}`,
+      updates: original.inverse.map((update) =>
+        update.status ? { ...update, status: { ...update.status, at } } : update
+      ),
+      actor: original.actor,
+    });
+    emit({ type: 'undone', write: original, reverted: true });
+    return true;
+  };
+
+  window.addEventListener('online', () => {
+    flush();
+  });
+  subscribeUser((uid) => {
+    userId = uid;
+    notify();
+    flush();
+  });
+
+  return {
+    get: () => ownWrites,
+    enqueue,
+    undo,
+
+    retry: (writeId) => {
+      if (!writes.some((entry) => entry.id === writeId && entry.state === 'failed')) return;
+      patchWrite(writeId, { state: 'pending', error: undefined });
+      flush();
+    },
+
+    discard: (writeId) => {
+      setWrites(writes.filter((entry) => entry.id !== writeId));
+    },
+
+    resolveConflict: (writeId, keep) => {
+      const conflicting = writes.find((entry) => entry.id === writeId && entry.state === 'conflict');
+      if (!conflicting) return;
+
+      const conflicts = conflicting.conflicts ?? [];
+      const conflicted = new Set(conflicts.map((conflict) => conflict.componentMaterial));
+      const isClear = (update: PartUpdate) => !conflicted.has(update.componentMaterial);
+      const clear = conflicting.updates.filter(isClear);
+      const blocked =
+        keep === 'theirs'
+          ? []
+          : conflicts.filter((conflict) => overwriteViolations(conflict, conflicting.actor).length > 0);
+      const overwritten = keep === 'theirs' ? [] : conflicts.filter((conflict) => !blocked.includes(conflict));
+      if (keep === 'mine' && !overwritten.length) return;
+
+      // The rest of the write goes out as one write; blocked parts keep the dialog open until the saved version is kept
+      const updates = [...clear, ...overwritten.map(rebaseOnServer)];
+      const resent: QueuedWrite[] = updates.length
+        ? [
+            {
+              ...conflicting,
+              id: blocked.length ? createWriteId() : writeId,
+              state: 'pending',
+              updates,
+              // Undo would put back values from before the other buyer's edit
+              inverse: overwritten.length ? undefined : conflicting.inverse?.filter(isClear),
+              conflicts: undefined,
+            },
+          ]
+        : [];
+      const remaining: QueuedWrite[] = blocked.length
+        ? [{ ...conflicting, updates: blocked.map((conflict) => conflict.update), conflicts: blocked }]
+        : [];
+      setWrites(writes.flatMap((entry) => (entry.id === writeId ? [...resent, ...remaining] : [entry])));
+      flush();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    onEvent: (listener) => {
+      eventListeners.add(listener);
+      return () => {
+        eventListeners.delete(listener);
+      };
+    },
+  };
+};
+
+export const writeQueue = createWriteQueue({
+  write: bomRepository.updateParts,
+  storageKey: `bom-write-queue-${activeBackend}`,
+  subscribeUser: (onUser) => {
+    authService.subscribe((user) => onUser(user?.uid ?? null));
+  },
+});
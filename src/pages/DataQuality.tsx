@@ -0,0 +1,151 @@
+import { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, CheckCircle2, ShieldAlert, Upload } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ComponentImage } from '@/components/ComponentImage';
+import { useAuth } from '@/hooks/useAuth';
+import { useBomData } from '@/hooks/useBomData';
+import { countPartsWithIssues, findDataQualityIssues } from '@/lib/dataQuality';
+import { partPath } from '@/lib/routes';
+import { cn } from '@/lib/utils';
+
+const surface = 'bg-white/90 backdrop-blur-sm border border-slate-200 shadow-sm';
+
+export default function DataQualityPage() {
+  const { bomItems, loading, error } = useBomData();
+  const { can } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const results = useMemo(() => findDataQualityIssues(bomItems), [bomItems]);
+  const partsWithIssues = countPartsWithIssues(results);
+
+  // `?check=` selects a check; otherwise the first one with issues is shown
+  const selectedId = searchParams.get('check');
+  const selected =
+    results.find((result) => result.check.id === selectedId) ?? results.find((result) => result.items.length) ?? null;
+
+  const selectCheck = (id: string) =>
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        next.set('check', id);
+        return next;
+      },
+      { replace: true }
+    );
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="flex w-full flex-col gap-6 px-4 py-8 sm:px-8 lg:px-12 lg:py-12">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="flex items-center gap-2 text-3xl font-bold text-slate-900">
+              <ShieldAlert className="h-7 w-7 text-indigo-600" />
+              Data quality
+            </h1>
+            <p className="text-sm text-slate-600">
+              {loading
+                ? 'Checking bom_summary records…'
+                : `${partsWithIssues} of ${bomItems.length} parts need attention`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {can('importBom') && (
+              <Button asChild variant="outline" className="gap-2">
+                <Link to="/import">
+                  <Upload className="h-4 w-4" />
+                  Import SAP extract
+                </Link>
+              </Button>
+            )}
+            <Button asChild variant="outline" className="gap-2">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4" />
+                Back to dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Alert>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+            {results.map(({ check, items }) => (
+              <button
+                key={check.id}
+                type="button"
+                onClick={() => selectCheck(check.id)}
+                className={cn(
+                  'flex items-center justify-between gap-3 rounded-lg border bg-white p-4 text-left shadow-sm transition',
+                  selected?.check.id === check.id ? 'border-indigo-400 ring-1 ring-indigo-200' : 'border-slate-200 hover:bg-slate-50'
+                )}
+              >
+                <div>
+                  <p className="font-semibold text-slate-900">{check.label}</p>
+                  <p className="text-xs text-slate-500">
+                    {check.fix === 'master-data' ? 'Fixed in SAP and re-imported' : 'Fixed on the part page'}
+                  </p>
+                </div>
+                {items.length ? (
+                  <Badge className="bg-amber-50 text-amber-700">{items.length}</Badge>
+                ) : (
+                  <CheckCircle2 className="h-5 w-5 text-emerald-500" />
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!loading && !partsWithIssues && (
+          <Alert>
+            <AlertDescription>Every part passes all checks.</AlertDescription>
+          </Alert>
+        )}
+
+        {selected && (
+          <Card className={surface}>
+            <CardHeader>
+              <CardTitle>{selected.check.label}</CardTitle>
+              <CardDescription>{selected.check.description}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!selected.items.length ? (
+                <p className="text-sm text-slate-500">No parts fail this check.</p>
+              ) : (
+                <div className="divide-y divide-slate-200">
+                  {selected.items.map((item) => (
+                    <div key={item.Component_Material} className="flex items-center gap-3 py-2">
+                      <ComponentImage componentMaterial={item.Component_Material} className="h-10 w-10 shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="font-semibold text-slate-900">{item.Component_Material}</p>
+                        <p className="truncate text-xs text-slate-500">{item.Description_EN}</p>
+                      </div>
+                      <span className="text-sm text-slate-600">{selected.check.detail(item)}</span>
+                      <Button asChild size="sm" variant="outline" className="gap-1">
+                        <Link to={partPath(item.Component_Material, selected.check.fix)}>
+                          Fix
+                          <ArrowRight className="h-3.5 w-3.5" />
+                        </Link>
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, FileSpreadsheet, Upload } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useBomData } from '@/hooks/useBomData';
+import {
+  ColumnMapping,
+  diffBomImport,
+  guessColumnMapping,
+  ImportDiff,
+  ImportTable,
+  mapImportRows,
+  MAPPABLE_FIELDS,
+  parseImportFile,
+} from '@/lib/bomImport';
+import { ImportChange } from '@/lib/repository';
+import { cn } from '@/lib/utils';
+
+const NOT_IMPORTED = '__none__';
+
+const surface = 'bg-white/90 backdrop-blur-sm border border-slate-200 shadow-sm';
+
+const kindStyles: Record<ImportDiff['kind'], string> = {
+  added: 'bg-emerald-50 text-emerald-700',
+  changed: 'bg-indigo-50 text-indigo-700',
+  removed: 'bg-red-50 text-red-700',
+};
+
+const formatDiffValue = (value: string | number) => (value === '' ? '—' : String(value));
+
+export default function ImportPage() {
+  const { bomItems, loading, applyImport } = useBomData();
+  const { can } = useAuth();
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [approved, setApproved] = useState<Set<string>>(() => new Set());
+  const [applying, setApplying] = useState(false);
+
+  const mapped = useMemo(() => (table && mapping ? mapImportRows(table, mapping) : null), [table, mapping]);
+  const diffs = useMemo(
+    () => (mapped && mapping?.Component_Material ? diffBomImport(bomItems, mapped.records) : []),
+    [bomItems, mapped, mapping]
+  );
+  const counts = useMemo(
+    () =>
+      diffs.reduce(
+        (totals, diff) => ({ ...totals, [diff.kind]: totals[diff.kind] + 1 }),
+        { added: 0, changed: 0, removed: 0 }
+      ),
+    [diffs]
+  );
+
+  // Removals are opt-in; additions and changes start approved
+  const resetApproval = (nextDiffs: ImportDiff[]) =>
+    setApproved(new Set(nextDiffs.filter((diff) => diff.kind !== 'removed').map((diff) => diff.componentMaterial)));
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setParseError(null);
+    setFileName(file.name);
+    try {
+      const parsed = await parseImportFile(file);
+      const guessed = guessColumnMapping(parsed.headers);
+      setTable(parsed);
+      setMapping(guessed);
+      const { records } = mapImportRows(parsed, guessed);
+      resetApproval(guessed.Component_Material ? diffBomImport(bomItems, records) : []);
+    } catch (err) {
+      console.error('Error parsing import file:', err);
+      setParseError(err instanceof Error ? err.message : 'Failed to read the file');
+      setTable(null);
+      setMapping(null);
+    }
+  };
+
+  const updateMapping = (field: keyof ColumnMapping, column: string) => {
+    if (!mapping || !table) return;
+    const next = { ...mapping, [field]: column === NOT_IMPORTED ? null : column };
+    setMapping(next);
+    const { records } = mapImportRows(table, next);
+    resetApproval(next.Component_Material ? diffBomImport(bomItems, records) : []);
+  };
+
+  const toggle = (componentMaterial: string, checked: boolean) =>
+    setApproved((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(componentMaterial);
+      } else {
+        next.delete(componentMaterial);
+      }
+      return next;
+    });
+
+  const setKindApproved = (kind: ImportDiff['kind'], checked: boolean) =>
+    setApproved((prev) => {
+      const next = new Set(prev);
+      diffs
+        .filter((diff) => diff.kind === kind)
+        .forEach((diff) => (checked ? next.add(diff.componentMaterial) : next.delete(diff.componentMaterial)));
+      return next;
+    });
+
+  const handleApply = async () => {
+    const changes: ImportChange[] = diffs
+      .filter((diff) => approved.has(diff.componentMaterial))
+      .map((diff) => ({
+        componentMaterial: diff.componentMaterial,
+        kind: diff.kind,
+        // Only changed fields are written for existing parts
+        fields:
+          diff.kind === 'removed'
+            ? undefined
+            : Object.fromEntries(diff.changes.map((change) => [change.field, change.after])),
+      }));
+    if (!changes.length) return;
+
+    setApplying(true);
+    const success = await applyImport(changes);
+    setApplying(false);
+
+    if (success) {
+      toast.success(`Applied ${changes.length} import changes`);
+      setApproved(new Set());
+    } else {
+      toast.error('Import failed', { description: 'No changes were written. Please try again.' });
+    }
+  };
+
+  const approvedCount = diffs.filter((diff) => approved.has(diff.componentMaterial)).length;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="flex w-full flex-col gap-6 px-4 py-8 sm:px-8 lg:px-12 lg:py-12">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900">Import SAP BoM extract</h1>
+            <p className="text-sm text-slate-600">
+              Refresh prices, quantities, dates and Kanban flags. Transfer fields are never overwritten.
+            </p>
+          </div>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              Back to dashboard
+            </Link>
+          </Button>
+        </div>
+
+        {!can('importBom') && (
+          <Alert>
+            <AlertDescription>Only admins can apply imports. You can still preview the differences.</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className={surface}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="h-5 w-5 text-indigo-600" />
+              Source file
+            </CardTitle>
+            <CardDescription>CSV (comma or semicolon separated) or XLSX; the first sheet is read</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input type="file" accept=".csv,.txt,.xlsx" onChange={(e) => handleFile(e.target.files?.[0])} />
+            {parseError && <p className="text-sm text-red-600">{parseError}</p>}
+            {table && (
+              <p className="flex items-center gap-2 text-sm text-slate-600">
+                <FileSpreadsheet className="h-4 w-4 text-emerald-600" />
+                {fileName}: {table.rows.length} rows, {table.headers.length} columns
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {table && mapping && (
+          <Card className={surface}>
+            <CardHeader>
+              <CardTitle>Column mapping</CardTitle>
+              <CardDescription>Columns were matched by name; adjust where the extract differs</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+              {MAPPABLE_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs text-slate-500">
+                    {label}
+                    {required && ' *'}
+                  </Label>
+                  <Select value={mapping[field] ?? NOT_IMPORTED} onValueChange={(value) => updateMapping(field, value)}>
+                    <SelectTrigger className="text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                      {table.headers.map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              {mapped && mapped.errors.length > 0 && (
+                <div className="md:col-span-2 xl:col-span-3">
+                  <Alert>
+                    <AlertDescription>
+                      <ul className="max-h-32 space-y-1 overflow-y-auto text-sm">
+                        {mapped.errors.map((message) => (
+                          <li key={message}>{message}</li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {table && mapping?.Component_Material && (
+          <Card className={surface}>
+            <CardHeader className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
+              <div>
+                <CardTitle>Differences</CardTitle>
+                <CardDescription>
+                  {loading ? 'Loading current data…' : `${diffs.length} parts differ from the current BoM summary`}
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                {(['added', 'changed', 'removed'] as const).map((kind) => (
+                  <label key={kind} className="flex items-center gap-2 font-semibold text-slate-600">
+                    <Checkbox
+                      checked={
+                        counts[kind] > 0 &&
+                        diffs.filter((diff) => diff.kind === kind).every((diff) => approved.has(diff.componentMaterial))
+                      }
+                      onCheckedChange={(checked) => setKindApproved(kind, checked === true)}
+                      disabled={!counts[kind]}
+                    />
+                    <Badge className={cn('capitalize', kindStyles[kind])}>
+                      {counts[kind]} {kind}
+                    </Badge>
+                  </label>
+                ))}
+                <Button onClick={handleApply} disabled={!approvedCount || applying || !can('importBom')}>
+                  {applying ? 'Applying…' : `Apply ${approvedCount} approved`}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0 text-[15px]">
+              <ScrollArea className="h-[560px]">
+                <div className="divide-y divide-slate-200">
+                  {diffs.map((diff) => (
+                    <div key={diff.componentMaterial} className="flex items-start gap-3 p-4">
+                      <Checkbox
+                        className="mt-1"
+                        checked={approved.has(diff.componentMaterial)}
+                        onCheckedChange={(checked) => toggle(diff.componentMaterial, checked === true)}
+                        aria-label={`Approve ${diff.componentMaterial}`}
+                      />
+                      <div className="flex-1 space-y-2">
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold text-slate-900">{diff.componentMaterial}</p>
+                          <Badge className={cn('text-xs capitalize', kindStyles[diff.kind])}>{diff.kind}</Badge>
+                        </div>
+                        {diff.kind === 'removed' ? (
+                          <p className="text-sm text-slate-500">
+                            Not in the extract. Approving deletes the part together with its transfer fields.
+                          </p>
+                        ) : (
+                          <div className="grid gap-1 text-sm text-slate-600 md:grid-cols-2">
+                            {diff.changes.map((change) => (
+                              <div key={change.field} className="flex flex-wrap items-center gap-1">
+                                <span className="text-xs text-slate-500">{change.field}:</span>
+                                {diff.kind === 'changed' && (
+                                  <>
+                                    <span className="text-slate-400 line-through">{formatDiffValue(change.before)}</span>
+                                    <ArrowRight className="h-3 w-3 text-slate-400" />
+                                  </>
+                                )}
+                                <span className="font-medium text-slate-900">{formatDiffValue(change.after)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  {!loading && diffs.length === 0 && (
+                    <div className="p-4 text-sm text-slate-500">The extract matches the current data.</div>
+                  )}
+                </div>
+              </ScrollArea>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,29 @@
-import { useMemo, useState } from 'react';
-import { addMonths, format, isBefore, isValid, parseISO, startOfMonth } from 'date-fns';
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { format, isBefore, isValid, parseISO, startOfMonth, subDays } from 'date-fns';
 import {
   Activity,
   ArrowUpDown,
   BadgeCheck,
-  CalendarIcon,
   ClipboardList,
+  Download,
   Factory,
   FilePieChart,
   Flag,
+  History,
   Layers,
   Lightbulb,
+  LogIn,
+  LogOut,
+  MessageSquare,
   NotebookPen,
+  Repeat,
   Search,
+  Settings,
+  ShieldAlert,
   Sparkles,
+  TrendingUp,
+  Upload,
 } from 'lucide-react';
 import {
   Bar,
@@ -24,37 +34,49 @@ import {
   XAxis,
   YAxis,
 } from 'recharts';
-import { useBomData } from '@/hooks/useBomData';
-import { TransferStatus } from '@/types/bom';
+import { useBomData, WriteResult } from '@/hooks/useBomData';
+import { useAuth } from '@/hooks/useAuth';
+import { useDailySnapshot } from '@/hooks/useBomSnapshots';
+import { useCommentMeta } from '@/hooks/useComments';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useSettings } from '@/hooks/useSettings';
+import { useSuppliers } from '@/hooks/useSuppliers';
+import { useStableArray } from '@/hooks/useStableArray';
+import { countPartsWithIssues, findDataQualityIssues } from '@/lib/dataQuality';
+import { exportBomItemsToExcel } from '@/lib/exportToExcel';
+import { exportPortfolioReportPdf } from '@/lib/pdfReport';
+import {
+  currentPeriod,
+  formatPeriodLabel,
+  formatPeriodRange,
+  getPeriodRange,
+  isInPeriod,
+  ReportingPeriod,
+} from '@/lib/reportingPeriod';
+import { activeBackend } from '@/lib/repository';
+import { getPartSavings, summarizeSavings } from '@/lib/savings';
+import { isTabKey, partPath, TabKey, tabPath } from '@/lib/routes';
+import { CommentMeta, TransferStatus } from '@/types/bom';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/sonner';
 import { cn } from '@/lib/utils';
+import { BulkActionBar } from '@/components/BulkActionBar';
+import { ComponentImage } from '@/components/ComponentImage';
+import { DateSelector } from '@/components/DateSelector';
+import { ReportingPeriodSelector } from '@/components/ReportingPeriodSelector';
 import { StatusButton } from '@/components/StatusButton';
+import { StatusHistoryDrawer } from '@/components/StatusHistoryDrawer';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
-
-const formatCurrency = (value: number) =>
-  new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'AUD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
-
-const formatFullCurrency = (value: number) =>
-  new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'AUD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
+import NotFound from './NotFound';
 
 const formatCompactNumber = (value: number) =>
   new Intl.NumberFormat('en-US', {
@@ -62,18 +84,22 @@ const formatCompactNumber = (value: number) =>
     maximumFractionDigits: 0,
   }).format(value);
 
-const parseDate = (value?: string) => {
+const parseExactDate = (value?: string) => {
   if (!value) return null;
   const parsed = parseISO(value);
-  return isValid(parsed) ? startOfMonth(parsed) : null;
+  return isValid(parsed) ? parsed : null;
+};
+
+const parseDate = (value?: string) => {
+  const parsed = parseExactDate(value);
+  return parsed ? startOfMonth(parsed) : null;
 };
 
-type TabKey =
-  | 'completed'
-  | 'plan'
-  | 'current'
-  | 'remaining'
-  | 'report';
+type SortKey = 'Value' | 'Standard_Price' | 'Total_Qty';
+
+const SORT_KEYS: SortKey[] = ['Value', 'Standard_Price', 'Total_Qty'];
+
+const isSortKey = (value: string | null): value is SortKey => SORT_KEYS.includes(value as SortKey);
 
 const filterByQuery = <T extends { Component_Material: string; Description_EN?: string }>(
   items: T[],
@@ -87,6 +113,12 @@ const filterByQuery = <T extends { Component_Material: string; Description_EN?:
   );
 };
 
+// Parts with a comment in this window count as recently discussed
+const RECENTLY_DISCUSSED_DAYS = 14;
+
+const filterByMaterials = <T extends { Component_Material: string }>(items: T[], materials: Set<string> | null) =>
+  materials ? items.filter((item) => materials.has(item.Component_Material)) : items;
+
 const buildSearchSuggestions = <T extends { Component_Material: string; Description_EN?: string }>(
   items: T[],
   query: string,
@@ -121,64 +153,29 @@ const SectionHeader = ({ title, description, icon: Icon }: { title: string; desc
   </div>
 );
 
-const DateSelector = ({
-  value,
-  onChange,
-}: {
-  value?: string;
-  onChange: (newDate: string | null) => void;
-}) => {
-  const parsed = value ? parseDate(value) : null;
-  const monthOptions = useMemo(() => {
-    const months: { label: string; value: string }[] = [];
-    const start = startOfMonth(new Date());
-
-    for (let i = 0; i < 12; i += 1) {
-      const month = addMonths(start, i);
-      months.push({ label: format(month, 'MMM yyyy'), value: month.toISOString() });
-    }
-
-    return months;
-  }, []);
-
-  const handleSelect = (date?: Date) => {
-    if (!date) {
-      onChange(null);
-      return;
-    }
-
-    const monthStart = startOfMonth(date);
-    onChange(monthStart.toISOString());
-  };
+const HistoryButton = ({ onClick }: { onClick: () => void }) => (
+  <Button
+    size="icon"
+    variant="ghost"
+    className="h-6 w-6 text-slate-400 hover:text-indigo-600"
+    onClick={onClick}
+    title="Status history"
+  >
+    <History className="h-3.5 w-3.5" />
+  </Button>
+);
 
-  return (
-    <Select
-      value={parsed ? parsed.toISOString() : undefined}
-      onValueChange={(newValue) => {
-        if (newValue === 'clear') {
-          onChange(null);
-          return;
-        }
-        handleSelect(new Date(newValue));
-      }}
+const CommentBadge = ({ componentMaterial, meta }: { componentMaterial: string; meta?: CommentMeta }) =>
+  meta ? (
+    <Link
+      to={partPath(componentMaterial)}
+      className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-600 hover:bg-indigo-50 hover:text-indigo-700"
+      title={`${meta.count} comment${meta.count === 1 ? '' : 's'}`}
     >
-      <SelectTrigger className="w-full justify-between text-sm">
-        <div className="flex items-center gap-2">
-          <CalendarIcon className="h-4 w-4 text-slate-500" />
-          <SelectValue placeholder="Select month" />
-        </div>
-      </SelectTrigger>
-      <SelectContent>
-        <SelectItem value="clear">Clear</SelectItem>
-        {monthOptions.map((month) => (
-          <SelectItem key={month.value} value={month.value}>
-            {month.label}
-          </SelectItem>
-        ))}
-      </SelectContent>
-    </Select>
-  );
-};
+      <MessageSquare className="h-3 w-3" />
+      {meta.count}
+    </Link>
+  ) : null;
 
 export default function ProfessionalDashboard() {
   const {
@@ -189,33 +186,77 @@ export default function ProfessionalDashboard() {
     updateExpectedCompletion,
     updateNotToTransferDetails,
     updatePlannedStart,
+    bulkUpdate,
   } = useBomData();
-  const [activeTab, setActiveTab] = useState<TabKey>('completed');
-  const [sortField, setSortField] = useState<'Value' | 'Standard_Price' | 'Total_Qty'>('Value');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
-  const [completedSearch, setCompletedSearch] = useState('');
-  const [planSearch, setPlanSearch] = useState('');
-  const [currentSearch, setCurrentSearch] = useState('');
-  const [remainingSearch, setRemainingSearch] = useState('');
-
-  const completedItems = useMemo(
-    () => bomItems.filter((item) => (item.Transfer_Status || 'Not Start') === 'Finished'),
-    [bomItems]
+  const { user, role, can, signOut } = useAuth();
+  const canEdit = can('editTransfer');
+  const statusAccess = { readOnly: !canEdit, allowRevertFinished: can('revertFinished') };
+  // Accepted writes are reported by the write queue's toasts; only rejections are reported here
+  const reportRejected = ({ success, reasons }: WriteResult) => {
+    if (!success) toast.error('Change not saved', { description: reasons.join(' ') });
+  };
+  useDailySnapshot(bomItems, !loading && canEdit);
+  const { tab } = useParams<{ tab: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab: TabKey = isTabKey(tab) ? tab : 'completed';
+  // The URL holds the view: ?q= search, ?sort= field, ?dir= direction and ?discussed=1; defaults are left out
+  const search = searchParams.get('q') ?? '';
+  const discussedOnly = searchParams.get('discussed') === '1';
+  const sortParam = searchParams.get('sort');
+  const sortField: SortKey = isSortKey(sortParam) ? sortParam : 'Value';
+  const sortDirection: 'asc' | 'desc' = searchParams.get('dir') === 'asc' ? 'asc' : 'desc';
+  const [historyMaterial, setHistoryMaterial] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [exportingTab, setExportingTab] = useState<TabKey | null>(null);
+
+  const updateParams = (changes: Record<string, string | null>, replace = false) =>
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        Object.entries(changes).forEach(([key, value]) => (value ? next.set(key, value) : next.delete(key)));
+        return next;
+      },
+      { replace }
+    );
+  // Typing replaces the history entry so back/forward steps over whole searches, not keystrokes
+  const setSearch = (value: string) => updateParams({ q: value || null }, true);
+  const setSort = (field: SortKey, direction: 'asc' | 'desc') =>
+    updateParams({ sort: field === 'Value' ? null : field, dir: direction === 'desc' ? null : direction });
+  const setDiscussedOnly = (value: boolean) => updateParams({ discussed: value ? '1' : null });
+  const commentMeta = useCommentMeta();
+  const { suppliers } = useSuppliers();
+  const recentlyDiscussed = useMemo(() => {
+    if (!discussedOnly) return null;
+    const cutoff = subDays(new Date(), RECENTLY_DISCUSSED_DAYS).toISOString();
+    return new Set(
+      Object.entries(commentMeta)
+        .filter(([, meta]) => meta.lastCommentAt >= cutoff)
+        .map(([material]) => material)
+    );
+  }, [commentMeta, discussedOnly]);
+  const [exportingReport, setExportingReport] = useState(false);
+  const { settings } = useSettings();
+  // Amounts are stored in AUD and shown in the display currency from settings
+  const { currency, fromAud, toAud, formatCurrency } = useCurrency();
+  const [reportingPeriod, setReportingPeriod] = useState<ReportingPeriod>(() =>
+    currentPeriod('calendar', settings.fiscalYearStartMonth)
   );
 
-  const planItems = useMemo(
-    () => bomItems.filter((item) => (item.Transfer_Status || 'Not Start') === 'In Progress'),
-    [bomItems]
+  const completedItems = useStableArray(
+    useMemo(() => bomItems.filter((item) => (item.Transfer_Status || 'Not Start') === 'Finished'), [bomItems])
   );
 
-  const currentBomItems = useMemo(
-    () => bomItems.filter((item) => (item.Transfer_Status || 'Not Start') === 'Not Start'),
-    [bomItems]
+  const planItems = useStableArray(
+    useMemo(() => bomItems.filter((item) => (item.Transfer_Status || 'Not Start') === 'In Progress'), [bomItems])
   );
 
-  const remainingItems = useMemo(
-    () => bomItems.filter((item) => (item.Transfer_Status || 'Not Start') === 'Not to Transfer'),
-    [bomItems]
+  const currentBomItems = useStableArray(
+    useMemo(() => bomItems.filter((item) => (item.Transfer_Status || 'Not Start') === 'Not Start'), [bomItems])
+  );
+
+  const remainingItems = useStableArray(
+    useMemo(() => bomItems.filter((item) => (item.Transfer_Status || 'Not Start') === 'Not to Transfer'), [bomItems])
   );
 
   const sortItems = useMemo(
@@ -254,35 +295,139 @@ export default function ProfessionalDashboard() {
   const sortedCurrent = useMemo(() => sortItems(currentBomItems), [currentBomItems, sortItems]);
   const sortedRemaining = useMemo(() => sortItems(remainingItems), [remainingItems, sortItems]);
   const filteredCompleted = useMemo(
-    () => filterByQuery(sortedCompleted, completedSearch),
-    [sortedCompleted, completedSearch]
+    () => filterByQuery(filterByMaterials(sortedCompleted, recentlyDiscussed), search),
+    [sortedCompleted, recentlyDiscussed, search]
+  );
+  const filteredPlan = useMemo(
+    () => filterByQuery(filterByMaterials(sortedPlan, recentlyDiscussed), search),
+    [sortedPlan, recentlyDiscussed, search]
   );
-  const filteredPlan = useMemo(() => filterByQuery(sortedPlan, planSearch), [sortedPlan, planSearch]);
   const filteredCurrent = useMemo(
-    () => filterByQuery(sortedCurrent, currentSearch),
-    [sortedCurrent, currentSearch]
+    () => filterByQuery(filterByMaterials(sortedCurrent, recentlyDiscussed), search),
+    [sortedCurrent, recentlyDiscussed, search]
   );
   const filteredRemaining = useMemo(
-    () => filterByQuery(sortedRemaining, remainingSearch),
-    [sortedRemaining, remainingSearch]
+    () => filterByQuery(filterByMaterials(sortedRemaining, recentlyDiscussed), search),
+    [sortedRemaining, recentlyDiscussed, search]
   );
   const completedSuggestions = useMemo(
-    () => buildSearchSuggestions(sortedCompleted, completedSearch),
-    [sortedCompleted, completedSearch]
+    () => buildSearchSuggestions(sortedCompleted, search),
+    [sortedCompleted, search]
   );
-  const planSuggestions = useMemo(() => buildSearchSuggestions(sortedPlan, planSearch), [sortedPlan, planSearch]);
+  const planSuggestions = useMemo(() => buildSearchSuggestions(sortedPlan, search), [sortedPlan, search]);
   const currentSuggestions = useMemo(
-    () => buildSearchSuggestions(sortedCurrent, currentSearch),
-    [sortedCurrent, currentSearch]
+    () => buildSearchSuggestions(sortedCurrent, search),
+    [sortedCurrent, search]
   );
   const remainingSuggestions = useMemo(
-    () => buildSearchSuggestions(sortedRemaining, remainingSearch),
-    [sortedRemaining, remainingSearch]
+    () => buildSearchSuggestions(sortedRemaining, search),
+    [sortedRemaining, search]
   );
   const totalPartsBaseline = bomItems.length;
+  const historyItem = useMemo(
+    () => bomItems.find((item) => item.Component_Material === historyMaterial) ?? null,
+    [bomItems, historyMaterial]
+  );
+
+  const visibleItems = useMemo(
+    () =>
+      ({
+        completed: filteredCompleted,
+        plan: filteredPlan,
+        current: filteredCurrent,
+        remaining: filteredRemaining,
+      })[activeTab] ?? [],
+    [activeTab, filteredCompleted, filteredPlan, filteredCurrent, filteredRemaining]
+  );
+
+  // Bulk actions apply to the selection, so rows hidden by the search or a filter drop out of it
+  useEffect(() => {
+    const visible = new Set(visibleItems.map((item) => item.Component_Material));
+    setSelected((prev) => {
+      const next = new Set([...prev].filter((material) => visible.has(material)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [visibleItems]);
+
+  const setSelection = (componentMaterials: string[], checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      componentMaterials.forEach((material) => (checked ? next.add(material) : next.delete(material)));
+      return next;
+    });
+
+  const RowCheckbox = ({ componentMaterial }: { componentMaterial: string }) =>
+    canEdit ? (
+      <Checkbox
+        className="mt-4 shrink-0"
+        checked={selected.has(componentMaterial)}
+        onCheckedChange={(checked) => setSelection([componentMaterial], checked === true)}
+        aria-label={`Select ${componentMaterial}`}
+      />
+    ) : null;
+
+  const SelectAllToggle = ({ items }: { items: typeof bomItems }) => {
+    if (!canEdit || !items.length) return null;
+
+    const selectedCount = items.filter((item) => selected.has(item.Component_Material)).length;
+    const checked = selectedCount === items.length ? true : selectedCount > 0 ? 'indeterminate' : false;
+
+    return (
+      <label className="flex shrink-0 items-center gap-2 text-xs font-semibold text-slate-600">
+        <Checkbox
+          checked={checked}
+          onCheckedChange={(value) =>
+            setSelection(
+              items.map((item) => item.Component_Material),
+              value === true
+            )
+          }
+        />
+        Select all {items.length}
+      </label>
+    );
+  };
+
+  const DiscussedToggle = () => (
+    <label
+      className="flex shrink-0 items-center gap-2 text-xs font-semibold text-slate-600"
+      title={`Parts with comments in the last ${RECENTLY_DISCUSSED_DAYS} days`}
+    >
+      <Checkbox checked={discussedOnly} onCheckedChange={(value) => setDiscussedOnly(value === true)} />
+      Recently discussed
+    </label>
+  );
+
+  // Exports the list as shown: search filter applied, in the active sort order
+  const ExportButton = ({ tab, items }: { tab: TabKey; items: typeof bomItems }) => (
+    <Button
+      size="sm"
+      variant="outline"
+      className="h-8 shrink-0 gap-1 text-xs"
+      disabled={!items.length || exportingTab !== null}
+      onClick={async () => {
+        setExportingTab(tab);
+        try {
+          await exportBomItemsToExcel(items, {
+            fileName: `bom-transfer-${tab}-${format(new Date(), 'yyyy-MM-dd')}`,
+            currency,
+            fromAud,
+          });
+        } catch (err) {
+          console.error('Error exporting to Excel:', err);
+          toast.error('Export failed', { description: 'The workbook could not be created. Please try again.' });
+        } finally {
+          setExportingTab(null);
+        }
+      }}
+    >
+      <Download className="h-3.5 w-3.5" />
+      {exportingTab === tab ? 'Exporting…' : `Export ${items.length}`}
+    </Button>
+  );
 
   const SortControls = ({ title }: { title?: string }) => {
-    const sortOptions: { key: typeof sortField; label: string }[] = [
+    const sortOptions: { key: SortKey; label: string }[] = [
       { key: 'Standard_Price', label: 'Unit price' },
       { key: 'Value', label: 'Total value' },
       { key: 'Total_Qty', label: 'Total qty' },
@@ -299,10 +444,9 @@ export default function ProfessionalDashboard() {
             className="h-8 text-xs"
             onClick={() => {
               if (sortField === option.key) {
-                setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'));
+                setSort(sortField, sortDirection === 'asc' ? 'desc' : 'asc');
               } else {
-                setSortField(option.key);
-                setSortDirection('desc');
+                setSort(option.key, 'desc');
               }
             }}
           >
@@ -314,7 +458,7 @@ export default function ProfessionalDashboard() {
           size="sm"
           variant="ghost"
           className="h-8 px-2 text-xs"
-          onClick={() => setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'))}
+          onClick={() => setSort(sortField, sortDirection === 'asc' ? 'desc' : 'asc')}
         >
           <ArrowUpDown className="mr-1 h-3 w-3" />
           {sortDirection === 'asc' ? 'Low to High' : 'High to Low'}
@@ -365,45 +509,81 @@ export default function ProfessionalDashboard() {
     </div>
   );
 
-  const completed2025 = useMemo(
+  const periodRange = useMemo(
+    () => getPeriodRange(reportingPeriod, settings.fiscalYearStartMonth),
+    [reportingPeriod, settings.fiscalYearStartMonth]
+  );
+  const periodLabel = formatPeriodLabel(reportingPeriod);
+  // Periods spanning calendar years need the year on month labels
+  const monthLabelFormat =
+    periodRange.start.getFullYear() === subDays(periodRange.end, 1).getFullYear() ? 'MMM' : 'MMM yy';
+
+  const completedInPeriod = useMemo(
     () =>
       completedItems.filter((item) => {
-        const latest = parseDate(item.Latest_Component_Date) || parseDate(item.Status_UpdatedAt);
-        return latest?.getFullYear() === 2025;
+        const latest = parseExactDate(item.Latest_Component_Date) || parseExactDate(item.Status_UpdatedAt);
+        return latest ? isInPeriod(latest, periodRange) : false;
       }),
-    [completedItems]
+    [completedItems, periodRange]
+  );
+
+  // Finished parts realise their savings; In Progress parts are the pipeline
+  const partsWithIssues = useMemo(() => countPartsWithIssues(findDataQualityIssues(bomItems)), [bomItems]);
+
+  const savings = useMemo(
+    () => ({
+      total: summarizeSavings(bomItems, toAud),
+      realised: summarizeSavings(completedItems, toAud),
+      pipeline: summarizeSavings(planItems, toAud),
+    }),
+    [bomItems, completedItems, planItems, toAud]
+  );
+
+  const savingsChart = useMemo(
+    () =>
+      bomItems
+        .map((item) => ({ item, savings: getPartSavings(item, toAud) }))
+        .filter((entry) => entry.savings)
+        .sort((a, b) => b.savings!.saving - a.savings!.saving)
+        .slice(0, 10)
+        .map(({ item, savings: partSavings }) => ({
+          material: item.Component_Material,
+          saving: Math.round(fromAud(partSavings!.saving)),
+          ratio: Math.round(partSavings!.savingRatio * 1000) / 10,
+        })),
+    [bomItems, fromAud, toAud]
   );
 
   const completedChart = useMemo(() => {
     const monthMap = new Map<string, { month: string; sortValue: number; count: number; value: number }>();
 
-    completed2025.forEach((item) => {
+    completedInPeriod.forEach((item) => {
       const date = parseDate(item.Latest_Component_Date) || parseDate(item.Status_UpdatedAt);
       if (!date) return;
       const key = format(date, 'yyyy-MM');
       const existing = monthMap.get(key) ?? {
-        month: format(date, 'MMM'),
+        month: format(date, monthLabelFormat),
         sortValue: +startOfMonth(date),
         count: 0,
         value: 0,
       };
       existing.count += 1;
-      existing.value += item.Value || 0;
+      existing.value += fromAud(item.Value || 0);
       monthMap.set(key, existing);
     });
 
     return Array.from(monthMap.values()).sort((a, b) => a.sortValue - b.sortValue);
-  }, [completed2025]);
+  }, [completedInPeriod, fromAud, monthLabelFormat]);
 
   const completedDecline = useMemo(() => {
     const monthMap = new Map<number, { month: string; sortValue: number; completed: number }>();
 
-    completed2025.forEach((item) => {
+    completedInPeriod.forEach((item) => {
       const date = parseDate(item.Latest_Component_Date) || parseDate(item.Status_UpdatedAt);
       if (!date) return;
       const sortValue = +startOfMonth(date);
       const entry = monthMap.get(sortValue) ?? {
-        month: format(date, 'MMM'),
+        month: format(date, monthLabelFormat),
         sortValue,
         completed: 0,
       };
@@ -424,7 +604,7 @@ export default function ProfessionalDashboard() {
       remaining = remainingAfter;
       return dataPoint;
     });
-  }, [completed2025, totalPartsBaseline]);
+  }, [completedInPeriod, monthLabelFormat, totalPartsBaseline]);
 
   const planForecast = useMemo(() => {
     const today = new Date();
@@ -445,7 +625,7 @@ export default function ProfessionalDashboard() {
         delayedParts: 0,
       };
       entry.parts += 1;
-      entry.value += item.Value || 0;
+      entry.value += fromAud(item.Value || 0);
       if (isBefore(expected, today)) {
         entry.delayedParts += 1;
       }
@@ -453,7 +633,7 @@ export default function ProfessionalDashboard() {
     });
 
     return Array.from(monthMap.values()).sort((a, b) => a.sortValue - b.sortValue);
-  }, [planItems]);
+  }, [fromAud, planItems]);
 
   const plannedStartSchedule = useMemo(() => {
     const monthMap = new Map<string, { month: string; sortValue: number; starts: number }>();
@@ -504,6 +684,10 @@ export default function ProfessionalDashboard() {
     return expected ? isBefore(expected, new Date()) : false;
   }).length;
 
+  if (!isTabKey(tab)) {
+    return <NotFound />;
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-slate-50">
@@ -537,26 +721,72 @@ export default function ProfessionalDashboard() {
 
   const reportText = `BoM Transfer Report\n\n- Parts completed: ${summary.completedParts}/${summary.totalParts}\n- Completion rate: ${Math.round(
     (summary.completedParts / Math.max(summary.totalParts, 1)) * 100
-  )}%\n- Value completed: ${formatCurrency(summary.completedValue)}\n- Remaining (excluding Not to Transfer): ${currentBomItems.length} parts\n- Delayed plans: ${delayedCount}\nGenerated on: ${format(new Date(), 'PPpp')}`;
+  )}%\n- Value completed: ${formatCurrency(summary.completedValue)}\n- Remaining (excluding Not to Transfer): ${currentBomItems.length} parts\n- Delayed plans: ${delayedCount}\n- Quoted savings: ${formatCurrency(savings.total.saving)} (${(
+    savings.total.savingRatio * 100
+  ).toFixed(1)}%)\nGenerated on: ${format(new Date(), 'PPpp')}`;
+
+  const handleExportReport = async () => {
+    const today = new Date();
+    setExportingReport(true);
+    try {
+      await exportPortfolioReportPdf({
+        generatedAt: today,
+        periodLabel: `Completed figures for ${periodLabel} (${formatPeriodRange(periodRange)})`,
+        kpis: {
+          totalParts: summary.totalParts,
+          completedParts: summary.completedParts,
+          totalValue: summary.totalValue,
+          completedValue: summary.completedValue,
+          inProgressParts: planItems.length,
+          delayedPlans: delayedCount,
+          currentParts: currentBomItems.length,
+          remainingInAu: remainingItems.length,
+        },
+        completedChart,
+        planForecast,
+        plannedStartTrajectory,
+        topOpenParts: [...planItems, ...currentBomItems].sort((a, b) => (b.Value || 0) - (a.Value || 0)).slice(0, 15),
+        delayedPlans: planItems
+          .filter((item) => {
+            const expected = parseDate(item.Expected_Completion);
+            return expected ? isBefore(expected, today) : false;
+          })
+          .sort((a, b) => (a.Expected_Completion || '').localeCompare(b.Expected_Completion || '')),
+        formatCurrency,
+      });
+    } catch (err) {
+      console.error('Error generating PDF report:', err);
+      toast.error('Report failed', { description: 'The PDF could not be created. Please try again.' });
+    } finally {
+      setExportingReport(false);
+    }
+  };
 
   const renderCompleted = () => (
     <div className="space-y-6">
-      <SectionHeader
-        title="Completed"
-        description="Dual-axis distribution by latest domestic purchase date"
-        icon={BadgeCheck}
-      />
+      <div className="flex flex-col gap-3 lg:flex-row lg:items-center lg:justify-between">
+        <SectionHeader
+          title="Completed"
+          description="Dual-axis distribution by latest domestic purchase date"
+          icon={BadgeCheck}
+        />
+        <ReportingPeriodSelector
+          value={reportingPeriod}
+          onChange={setReportingPeriod}
+          fiscalStartMonth={settings.fiscalYearStartMonth}
+        />
+      </div>
 
       <Card className={professionalPalette.surface}>
         <CardContent className="grid gap-4 md:grid-cols-3 md:divide-x divide-slate-200 p-6">
           <div className="flex flex-col gap-1">
-            <span className="text-xs uppercase tracking-wide text-slate-500">2025 parts closed</span>
-            <span className="text-3xl font-semibold text-slate-900">{completed2025.length}</span>
+            <span className="text-xs uppercase tracking-wide text-slate-500">{periodLabel} parts closed</span>
+            <span className="text-3xl font-semibold text-slate-900">{completedInPeriod.length}</span>
           </div>
           <div className="flex flex-col gap-1 px-0 md:px-6">
-            <span className="text-xs uppercase tracking-wide text-slate-500">2025 value saved</span>
+            <span className="text-xs uppercase tracking-wide text-slate-500">{periodLabel} value saved</span>
             <span className="text-3xl font-semibold text-emerald-600">
-              {formatCurrency(completed2025.reduce((sum, item) => sum + (item.Value || 0), 0))}
+              {formatCurrency(completedInPeriod.reduce((sum, item) => sum + (item.Value || 0), 0))}
             </span>
           </div>
           <div className="flex flex-col gap-1">
@@ -568,6 +798,97 @@ export default function ProfessionalDashboard() {
         </CardContent>
       </Card>
 
+      <Card className={professionalPalette.surface}>
+        <CardHeader>
+          <CardTitle>Savings</CardTitle>
+          <CardDescription>
+            China quotes against the AU standard price in {currency}, across each part's total quantity
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 lg:grid-cols-[minmax(0,0.8fr)_minmax(0,1.6fr)]">
+          <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-1">
+            <div className="flex flex-col gap-1">
+              <span className="text-xs uppercase tracking-wide text-slate-500">Quoted savings</span>
+              <span
+                className={cn(
+                  'text-3xl font-semibold',
+                  savings.total.saving >= 0 ? 'text-emerald-600' : 'text-red-600'
+                )}
+              >
+                {formatCurrency(savings.total.saving)}
+              </span>
+              <span className="text-xs text-slate-500">
+                {(savings.total.savingRatio * 100).toFixed(1)}% of {formatCurrency(savings.total.standardValue)} AU
+                value · {savings.total.quotedParts} of {summary.totalParts} parts quoted
+              </span>
+            </div>
+            <div className="flex flex-col gap-1">
+              <span className="text-xs uppercase tracking-wide text-slate-500">Realised (Finished)</span>
+              <span className="text-2xl font-semibold text-slate-900">{formatCurrency(savings.realised.saving)}</span>
+              <span className="text-xs text-slate-500">
+                {(savings.realised.savingRatio * 100).toFixed(1)}% · {savings.realised.quotedParts} parts
+              </span>
+            </div>
+            <div className="flex flex-col gap-1">
+              <span className="text-xs uppercase tracking-wide text-slate-500">Pipeline (In Progress)</span>
+              <span className="text-2xl font-semibold text-indigo-600">{formatCurrency(savings.pipeline.saving)}</span>
+              <span className="text-xs text-slate-500">
+                {(savings.pipeline.savingRatio * 100).toFixed(1)}% · {savings.pipeline.quotedParts} parts
+              </span>
+            </div>
+          </div>
+          {savingsChart.length ? (
+            <div className="h-72">
+              <ChartContainer
+                config={{
+                  saving: { label: 'Saving', color: 'hsl(158, 70%, 45%)' },
+                  ratio: { label: 'Saving %', color: 'hsl(215, 85%, 55%)' },
+                }}
+              >
+                <ComposedChart data={savingsChart}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="material" tick={{ fontSize: 11 }} />
+                  <YAxis
+                    yAxisId="left"
+                    tickFormatter={formatCompactNumber}
+                    label={{ value: 'Saving', angle: -90, position: 'insideLeft' }}
+                  />
+                  <YAxis
+                    yAxisId="right"
+                    orientation="right"
+                    unit="%"
+                    label={{ value: 'Saving %', angle: 90, position: 'insideRight' }}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Legend />
+                  <Bar
+                    yAxisId="left"
+                    dataKey="saving"
+                    name="Saving"
+                    barSize={26}
+                    fill="var(--color-saving)"
+                    radius={[8, 8, 0, 0]}
+                  />
+                  <Line
+                    yAxisId="right"
+                    type="monotone"
+                    dataKey="ratio"
+                    name="Saving %"
+                    stroke="var(--color-ratio)"
+                    strokeWidth={2}
+                    dot
+                  />
+                </ComposedChart>
+              </ChartContainer>
+            </div>
+          ) : (
+            <p className="self-center text-sm text-slate-500">
+              No parts have a quote yet. Add a quoted unit price on a part page to track savings.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="grid gap-6 lg:grid-cols-2 xl:grid-cols-[1.05fr_1fr]">
         <Card className={professionalPalette.surface}>
           <CardHeader className="flex items-center justify-between">
@@ -575,7 +896,7 @@ export default function ProfessionalDashboard() {
               <CardTitle>Completion distribution</CardTitle>
               <CardDescription>Volume and value on independent axes (latest domestic buy date)</CardDescription>
             </div>
-            <Badge variant="outline" className="text-xs">2025</Badge>
+            <Badge variant="outline" className="text-xs">{periodLabel}</Badge>
           </CardHeader>
           <CardContent>
             <div className="h-80">
@@ -597,7 +918,7 @@ export default function ProfessionalDashboard() {
                     yAxisId="right"
                     orientation="right"
                     tickFormatter={formatCompactNumber}
-                    label={{ value: 'Total Value', angle: 90, position: 'insideRight' }}
+                    label={{ value: `Total Value (${currency})`, angle: 90, position: 'insideRight' }}
                   />
                   <ChartTooltip content={<ChartTooltipContent />} />
                   <Legend />
@@ -612,7 +933,7 @@ export default function ProfessionalDashboard() {
                   <Bar
                     yAxisId="right"
                     dataKey="value"
-                    name="Value"
+                    name={`Value (${currency})`}
                     barSize={26}
                     fill="var(--color-value)"
                     radius={[8, 8, 0, 0]}
@@ -625,7 +946,7 @@ export default function ProfessionalDashboard() {
 
         <Card className={professionalPalette.surface}>
           <CardHeader>
-            <CardTitle>2025 total quantity decline</CardTitle>
+            <CardTitle>{periodLabel} total quantity decline</CardTitle>
             <CardDescription>Cumulative remaining parts as completions land</CardDescription>
           </CardHeader>
           <CardContent>
@@ -665,12 +986,15 @@ export default function ProfessionalDashboard() {
           <div className="flex w-full flex-col gap-2 sm:flex-row sm:items-center sm:justify-end sm:gap-3">
             <SearchInput
               label="Search"
-              value={completedSearch}
-              onChange={setCompletedSearch}
+              value={search}
+              onChange={setSearch}
               suggestions={completedSuggestions}
               placeholder="Filter by code or description"
             />
+            <DiscussedToggle />
             <SortControls title="Sort completed" />
+            <SelectAllToggle items={filteredCompleted} />
+            <ExportButton tab="completed" items={filteredCompleted} />
           </div>
         </CardHeader>
         <CardContent className="p-0 text-[15px]">
@@ -684,16 +1008,21 @@ export default function ProfessionalDashboard() {
                     className="grid gap-4 p-4 md:grid-cols-[minmax(0,1.35fr)_minmax(0,1.5fr)] md:items-center"
                     >
                       <div className="flex items-start gap-3">
-                        <div className="h-12 w-12 overflow-hidden rounded-md bg-slate-100">
-                          {item.imageUrl ? (
-                            <img src={item.imageUrl} alt={item.Component_Material} className="h-full w-full object-cover" />
-                          ) : (
-                            <div className="flex h-full w-full items-center justify-center text-xs text-slate-400">No image</div>
-                          )}
-                        </div>
+                        <RowCheckbox componentMaterial={item.Component_Material} />
+                        <ComponentImage componentMaterial={item.Component_Material} className="h-12 w-12 shrink-0" editable />
                         <div className="space-y-1">
                           <div className="flex items-center gap-2">
-                            <p className="font-semibold text-slate-900">{item.Component_Material}</p>
+                            <Link
+                              to={partPath(item.Component_Material)}
+                              className="font-semibold text-slate-900 hover:text-indigo-600 hover:underline"
+                            >
+                              {item.Component_Material}
+                            </Link>
+                            <HistoryButton onClick={() => setHistoryMaterial(item.Component_Material)} />
+                            <CommentBadge
+                              componentMaterial={item.Component_Material}
+                              meta={commentMeta[item.Component_Material]}
+                            />
                             <Badge className="bg-emerald-50 text-emerald-700">Finished</Badge>
                           </div>
                           <p className="text-sm text-slate-600 line-clamp-2">{item.Description_EN}</p>
@@ -706,7 +1035,7 @@ export default function ProfessionalDashboard() {
                         </div>
                         <div className="flex flex-col text-right md:items-end">
                           <span className="text-xs text-slate-500">Unit price</span>
-                          <span className="font-semibold text-slate-900">{formatFullCurrency(item.Standard_Price || 0)}</span>
+                          <span className="font-semibold text-slate-900">{formatCurrency(item.Standard_Price || 0, { fractionDigits: 2 })}</span>
                         </div>
                         <div className="flex flex-col text-right md:items-end">
                           <span className="text-xs text-slate-500">Total qty</span>
@@ -800,7 +1129,7 @@ export default function ProfessionalDashboard() {
                   type="monotone"
                   yAxisId="right"
                   dataKey="value"
-                  name="Value"
+                  name={`Value (${currency})`}
                   stroke="var(--color-value)"
                   strokeWidth={3}
                   dot={{ r: 3 }}
@@ -820,12 +1149,15 @@ export default function ProfessionalDashboard() {
           <div className="flex w-full flex-col gap-2 sm:flex-row sm:items-center sm:justify-end sm:gap-3">
             <SearchInput
               label="Search"
-              value={planSearch}
-              onChange={setPlanSearch}
+              value={search}
+              onChange={setSearch}
               suggestions={planSuggestions}
               placeholder="Filter by code or description"
             />
+            <DiscussedToggle />
             <SortControls title="Sort in progress" />
+            <SelectAllToggle items={filteredPlan} />
+            <ExportButton tab="plan" items={filteredPlan} />
           </div>
         </CardHeader>
         <CardContent className="p-0 text-[15px]">
@@ -840,16 +1172,21 @@ export default function ProfessionalDashboard() {
                       className="grid gap-3 p-4 lg:grid-cols-[1.2fr_1fr_1.1fr_1fr_1fr] lg:items-center"
                     >
                       <div className="flex items-start gap-3">
-                        <div className="h-12 w-12 overflow-hidden rounded-md bg-slate-100">
-                          {item.imageUrl ? (
-                            <img src={item.imageUrl} alt={item.Component_Material} className="h-full w-full object-cover" />
-                          ) : (
-                            <div className="flex h-full w-full items-center justify-center text-xs text-slate-400">No image</div>
-                          )}
-                        </div>
+                        <RowCheckbox componentMaterial={item.Component_Material} />
+                        <ComponentImage componentMaterial={item.Component_Material} className="h-12 w-12 shrink-0" editable />
                         <div className="space-y-1">
                           <div className="flex items-center gap-2">
-                            <p className="font-semibold text-slate-900">{item.Component_Material}</p>
+                            <Link
+                              to={partPath(item.Component_Material)}
+                              className="font-semibold text-slate-900 hover:text-indigo-600 hover:underline"
+                            >
+                              {item.Component_Material}
+                            </Link>
+                            <HistoryButton onClick={() => setHistoryMaterial(item.Component_Material)} />
+                            <CommentBadge
+                              componentMaterial={item.Component_Material}
+                              meta={commentMeta[item.Component_Material]}
+                            />
                             <Badge variant="outline" className={isDelayed ? 'border-amber-300 text-amber-700' : ''}>
                               In Progress
                             </Badge>
@@ -864,14 +1201,15 @@ export default function ProfessionalDashboard() {
                       </div>
                       <div className="flex flex-col gap-1 text-right text-slate-700 lg:items-end">
                         <span className="text-xs uppercase tracking-wide text-slate-500">Unit price</span>
-                        <span className="font-semibold text-slate-900">{formatFullCurrency(item.Standard_Price || 0)}</span>
+                        <span className="font-semibold text-slate-900">{formatCurrency(item.Standard_Price || 0, { fractionDigits: 2 })}</span>
                       </div>
                       <div className="flex flex-col gap-2 text-slate-700">
                         <Label className="text-xs text-slate-500">Expected completion</Label>
                         <DateSelector
                           value={item.Expected_Completion}
+                          disabled={!canEdit}
                           onChange={async (newDate) => {
-                            await updateExpectedCompletion(item.Component_Material, newDate);
+                            reportRejected(await updateExpectedCompletion(item.Component_Material, newDate));
                           }}
                         />
                         {isDelayed && <p className="text-xs text-amber-600">Past due</p>}
@@ -880,7 +1218,9 @@ export default function ProfessionalDashboard() {
                         <span className="text-xs text-slate-500">Latest buy: {item.Latest_Component_Date || 'N/A'}</span>
                         <StatusButton
                           currentStatus={(item.Transfer_Status || 'Not Start') as TransferStatus}
-                          onStatusChange={(status) => updateStatus(item.Component_Material, status)}
+                          onStatusChange={(status, input) => updateStatus(item.Component_Material, status, input)}
+                          {...statusAccess}
+                          item={item}
                         />
                       </div>
                     </div>
@@ -953,12 +1293,15 @@ export default function ProfessionalDashboard() {
           <div className="flex w-full flex-col gap-2 sm:flex-row sm:items-center sm:justify-end sm:gap-3">
             <SearchInput
               label="Search"
-              value={currentSearch}
-              onChange={setCurrentSearch}
+              value={search}
+              onChange={setSearch}
               suggestions={currentSuggestions}
               placeholder="Filter by code or description"
             />
+            <DiscussedToggle />
             <SortControls title="Sort Not Start" />
+            <SelectAllToggle items={filteredCurrent} />
+            <ExportButton tab="current" items={filteredCurrent} />
           </div>
         </CardHeader>
         <CardContent className="p-0 text-[15px]">
@@ -970,16 +1313,21 @@ export default function ProfessionalDashboard() {
                   className="grid gap-3 p-4 lg:grid-cols-[1.5fr_1fr_0.95fr_1.05fr_0.9fr] lg:items-center"
                 >
                   <div className="flex items-start gap-3">
-                    <div className="h-12 w-12 overflow-hidden rounded-md bg-slate-100">
-                      {item.imageUrl ? (
-                        <img src={item.imageUrl} alt={item.Component_Material} className="h-full w-full object-cover" />
-                      ) : (
-                        <div className="flex h-full w-full items-center justify-center text-xs text-slate-400">No image</div>
-                      )}
-                    </div>
+                    <RowCheckbox componentMaterial={item.Component_Material} />
+                    <ComponentImage componentMaterial={item.Component_Material} className="h-12 w-12 shrink-0" editable />
                     <div className="space-y-1">
                       <div className="flex items-center gap-2">
-                        <p className="font-semibold text-slate-900">{item.Component_Material}</p>
+                        <Link
+                          to={partPath(item.Component_Material)}
+                          className="font-semibold text-slate-900 hover:text-indigo-600 hover:underline"
+                        >
+                          {item.Component_Material}
+                        </Link>
+                        <HistoryButton onClick={() => setHistoryMaterial(item.Component_Material)} />
+                        <CommentBadge
+                          componentMaterial={item.Component_Material}
+                          meta={commentMeta[item.Component_Material]}
+                        />
                         <Badge variant="outline" className="text-xs">Not Start</Badge>
                       </div>
                       <p className="text-sm text-slate-600 line-clamp-2">{item.Description_EN}</p>
@@ -991,23 +1339,26 @@ export default function ProfessionalDashboard() {
                   </div>
                   <div className="flex flex-col gap-1 text-right text-slate-700 lg:items-end">
                     <span className="text-xs text-slate-500">Unit price</span>
-                    <span className="font-semibold text-slate-900">{formatFullCurrency(item.Standard_Price || 0)}</span>
+                    <span className="font-semibold text-slate-900">{formatCurrency(item.Standard_Price || 0, { fractionDigits: 2 })}</span>
                     <span className="text-[12px] text-slate-500">Qty: {item.Total_Qty || 0}</span>
                   </div>
                   <div className="w-full">
                     <Label className="mb-1 block text-xs text-slate-500">Planned start</Label>
                     <DateSelector
                       value={item.Planned_Start}
+                      disabled={!canEdit}
                       onChange={async (value) => {
-                        await updatePlannedStart(item.Component_Material, value);
+                        reportRejected(await updatePlannedStart(item.Component_Material, value));
                       }}
                     />
                   </div>
                   <div className="flex items-center justify-end gap-2 text-xs text-slate-600 lg:justify-self-end">
-                    <span className="hidden lg:inline">Kanban: {item.Kanban_Flag || '-'}</span>
+                    <span className="hidden lg:inline">Kanban: {item.Is_Kanban ? 'Yes' : 'No'}</span>
                     <StatusButton
                       currentStatus={(item.Transfer_Status || 'Not Start') as TransferStatus}
-                      onStatusChange={(status) => updateStatus(item.Component_Material, status)}
+                      onStatusChange={(status, input) => updateStatus(item.Component_Material, status, input)}
+                      {...statusAccess}
+                      item={item}
                     />
                   </div>
                 </div>
@@ -1039,12 +1390,15 @@ export default function ProfessionalDashboard() {
           <div className="flex w-full flex-col gap-2 sm:flex-row sm:items-center sm:justify-end sm:gap-3">
             <SearchInput
               label="Search"
-              value={remainingSearch}
-              onChange={setRemainingSearch}
+              value={search}
+              onChange={setSearch}
               suggestions={remainingSuggestions}
               placeholder="Filter by code or description"
             />
+            <DiscussedToggle />
             <SortControls title="Sort holds" />
+            <SelectAllToggle items={filteredRemaining} />
+            <ExportButton tab="remaining" items={filteredRemaining} />
           </div>
         </CardHeader>
         <CardContent className="text-[15px]">
@@ -1056,24 +1410,29 @@ export default function ProfessionalDashboard() {
                   className="grid gap-5 p-4 lg:grid-cols-[minmax(0,1.6fr)_minmax(0,1.1fr)] lg:items-start"
                 >
                   <div className="flex items-start gap-3">
-                    <div className="h-12 w-12 overflow-hidden rounded-md bg-slate-100">
-                      {item.imageUrl ? (
-                        <img src={item.imageUrl} alt={item.Component_Material} className="h-full w-full object-cover" />
-                      ) : (
-                        <div className="flex h-full w-full items-center justify-center text-xs text-slate-400">No image</div>
-                      )}
-                    </div>
+                    <RowCheckbox componentMaterial={item.Component_Material} />
+                    <ComponentImage componentMaterial={item.Component_Material} className="h-12 w-12 shrink-0" editable />
                     <div className="space-y-1">
                       <div className="flex items-center gap-2">
-                        <p className="font-semibold text-slate-900">{item.Component_Material}</p>
+                        <Link
+                          to={partPath(item.Component_Material)}
+                          className="font-semibold text-slate-900 hover:text-indigo-600 hover:underline"
+                        >
+                          {item.Component_Material}
+                        </Link>
+                        <HistoryButton onClick={() => setHistoryMaterial(item.Component_Material)} />
+                        <CommentBadge
+                          componentMaterial={item.Component_Material}
+                          meta={commentMeta[item.Component_Material]}
+                        />
                         <Badge variant="outline" className="text-xs">Not to Transfer</Badge>
                       </div>
                       <p className="text-sm text-slate-600 line-clamp-2">{item.Description_EN}</p>
                       <div className="mt-2 flex flex-wrap gap-2 text-xs text-slate-500">
                         <span>Value {formatCurrency(item.Value || 0)}</span>
-                        <span>Unit {formatFullCurrency(item.Standard_Price || 0)}</span>
+                        <span>Unit {formatCurrency(item.Standard_Price || 0, { fractionDigits: 2 })}</span>
                         <span>Qty {item.Total_Qty || 0}</span>
-                        <span>Kanban: {item.Kanban_Flag || '-'}</span>
+                        <span>Kanban: {item.Is_Kanban ? 'Yes' : 'No'}</span>
                       </div>
                     </div>
                   </div>
@@ -1082,13 +1441,14 @@ export default function ProfessionalDashboard() {
                       <div className="space-y-1">
                         <Label className="text-xs text-slate-500">Reason</Label>
                         <Input
+                          // Remount when the saved value changes, e.g. after Undo
+                          key={item.NotToTransferReason}
                           defaultValue={item.NotToTransferReason}
+                          disabled={!canEdit}
                           placeholder="Why held in AU"
                           onBlur={async (e) => {
-                            await updateNotToTransferDetails(
-                              item.Component_Material,
-                              e.target.value,
-                              item.Brand || ''
+                            reportRejected(
+                              await updateNotToTransferDetails(item.Component_Material, e.target.value, item.Brand || '')
                             );
                           }}
                         />
@@ -1096,13 +1456,17 @@ export default function ProfessionalDashboard() {
                       <div className="space-y-1">
                         <Label className="text-xs text-slate-500">Brand</Label>
                         <Input
+                          key={item.Brand}
                           defaultValue={item.Brand}
+                          disabled={!canEdit}
                           placeholder="Brand"
                           onBlur={async (e) => {
-                            await updateNotToTransferDetails(
-                              item.Component_Material,
-                              item.NotToTransferReason || '',
-                              e.target.value
+                            reportRejected(
+                              await updateNotToTransferDetails(
+                                item.Component_Material,
+                                item.NotToTransferReason || '',
+                                e.target.value
+                              )
                             );
                           }}
                         />
@@ -1111,7 +1475,9 @@ export default function ProfessionalDashboard() {
                     <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
                       <StatusButton
                         currentStatus={(item.Transfer_Status || 'Not Start') as TransferStatus}
-                        onStatusChange={(status) => updateStatus(item.Component_Material, status)}
+                        onStatusChange={(status, input) => updateStatus(item.Component_Material, status, input)}
+                        {...statusAccess}
+                        item={item}
                       />
                       <span className="text-slate-400">Recorded in Firebase</span>
                     </div>
@@ -1142,25 +1508,13 @@ export default function ProfessionalDashboard() {
             <CardTitle>Stage overview</CardTitle>
             <CardDescription>Completion, value, delays, and current BoM snapshot</CardDescription>
           </div>
-          <Button
-            onClick={() => {
-              const blob = new Blob([reportText], { type: 'text/plain' });
-              const url = URL.createObjectURL(blob);
-              const link = document.createElement('a');
-              link.href = url;
-              link.download = 'bom-transfer-report.txt';
-              link.click();
-              URL.revokeObjectURL(url);
-            }}
-            variant="outline"
-            className="gap-2"
-          >
+          <Button onClick={handleExportReport} disabled={exportingReport} variant="outline" className="gap-2">
             <ClipboardList className="h-4 w-4" />
-            Export report
+            {exportingReport ? 'Preparing PDF…' : 'Download PDF report'}
           </Button>
         </CardHeader>
         <CardContent className="space-y-3">
-          <div className="grid grid-cols-1 gap-3 md:grid-cols-2 lg:grid-cols-4">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2 lg:grid-cols-5">
             <div className="rounded-lg border border-slate-200 bg-slate-50 p-4">
               <div className="text-xs text-slate-500">Completion</div>
               <div className="text-2xl font-semibold text-slate-900">
@@ -1181,6 +1535,12 @@ export default function ProfessionalDashboard() {
               <div className="text-xs text-slate-500">Current BoM (Not Start)</div>
               <div className="text-2xl font-semibold text-indigo-600">{currentBomItems.length}</div>
             </div>
+            <div className="rounded-lg border border-slate-200 bg-slate-50 p-4">
+              <div className="text-xs text-slate-500">Quoted savings</div>
+              <div className="text-2xl font-semibold text-emerald-600">
+                {formatCurrency(savings.total.saving)} ({(savings.total.savingRatio * 100).toFixed(1)}%)
+              </div>
+            </div>
           </div>
           <Separator />
           <pre className="whitespace-pre-wrap rounded-lg bg-slate-900/90 p-4 text-sm text-slate-50">
@@ -1220,9 +1580,68 @@ export default function ProfessionalDashboard() {
                 <p className="text-base font-semibold text-slate-900">Operations view</p>
               </div>
             </div>
-            <div className="flex items-center gap-2 text-sm text-slate-500">
-              <Activity className="h-4 w-4 text-emerald-600" />
-              Data synced from Firebase
+            <div className="flex flex-wrap items-center gap-3 text-sm text-slate-500">
+              <div className="flex items-center gap-2">
+                <Activity className="h-4 w-4 text-emerald-600" />
+                {activeBackend === 'firebase' ? 'Data synced from Firebase' : 'Local demo data'}
+              </div>
+              <Button asChild size="sm" variant="outline" className="h-8 gap-1 text-xs">
+                <Link to="/trends">
+                  <TrendingUp className="h-3.5 w-3.5" />
+                  Trends
+                </Link>
+              </Button>
+              <Button asChild size="sm" variant="outline" className="h-8 gap-1 text-xs">
+                <Link to="/suppliers">
+                  <Factory className="h-3.5 w-3.5" />
+                  Suppliers
+                </Link>
+              </Button>
+              <Button asChild size="sm" variant="outline" className="h-8 gap-1 text-xs">
+                <Link to="/kanban">
+                  <Repeat className="h-3.5 w-3.5" />
+                  Kanban
+                </Link>
+              </Button>
+              <Button asChild size="sm" variant="outline" className="h-8 gap-1 text-xs">
+                <Link to="/data-quality">
+                  <ShieldAlert className="h-3.5 w-3.5" />
+                  Data quality
+                  {partsWithIssues > 0 && (
+                    <Badge className="ml-1 h-4 bg-amber-100 px-1.5 text-[10px] text-amber-700">{partsWithIssues}</Badge>
+                  )}
+                </Link>
+              </Button>
+              <Button asChild size="sm" variant="ghost" className="h-8 w-8 p-0" title="Settings">
+                <Link to="/settings">
+                  <Settings className="h-3.5 w-3.5" />
+                </Link>
+              </Button>
+              {can('importBom') && (
+                <Button asChild size="sm" variant="outline" className="h-8 gap-1 text-xs">
+                  <Link to="/import">
+                    <Upload className="h-3.5 w-3.5" />
+                    Import SAP extract
+                  </Link>
+                </Button>
+              )}
+              {user ? (
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-slate-700">{user.displayName}</span>
+                  <Badge variant="outline" className="text-xs capitalize">{role}</Badge>
+                  <Button size="sm" variant="ghost" className="h-8 gap-1 text-xs" onClick={() => signOut()}>
+                    <LogOut className="h-3.5 w-3.5" />
+                    Sign out
+                  </Button>
+                </div>
+              ) : (
+                <Button asChild size="sm" variant="outline" className="h-8 gap-1 text-xs">
+                  <Link to="/login">
+                    <LogIn className="h-3.5 w-3.5" />
+                    Sign in to edit
+                  </Link>
+                </Button>
+              )}
             </div>
           </div>
           <Separator />
@@ -1233,7 +1652,14 @@ export default function ProfessionalDashboard() {
               return (
                 <button
                   key={item.key}
-                  onClick={() => setActiveTab(item.key)}
+                  aria-current={active ? 'page' : undefined}
+                  onClick={() => {
+                    // Sort and the discussion filter carry over between tabs; each tab starts with an empty search
+                    const params = new URLSearchParams(searchParams);
+                    params.delete('q');
+                    navigate({ pathname: tabPath(item.key), search: params.toString() });
+                    setSelected(new Set());
+                  }}
                   className={cn(
                     'flex min-w-[12rem] flex-1 items-start gap-2 rounded-xl border px-3 py-3 text-left transition md:min-w-[10rem]',
                     active ? 'border-indigo-500 bg-indigo-50 shadow-sm' : 'border-slate-200 bg-white hover:border-indigo-200'
@@ -1259,7 +1685,25 @@ export default function ProfessionalDashboard() {
           </div>
 
           {renderContent()}
+
+          {canEdit && activeTab !== 'report' && (
+            <BulkActionBar
+              selectedCount={selected.size}
+              suppliers={suppliers}
+              onApply={(patch) => bulkUpdate(Array.from(selected), patch)}
+              onClear={() => setSelected(new Set())}
+            />
+          )}
         </main>
+
+        <StatusHistoryDrawer
+          item={historyItem}
+          onOpenChange={(open) => {
+            if (!open) setHistoryMaterial(null);
+          }}
+          onStatusChange={updateStatus}
+          statusAccess={statusAccess}
+        />
       </div>
     </div>
   );
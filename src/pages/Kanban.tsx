@@ -0,0 +1,196 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { format, isBefore, isValid, parseISO, startOfMonth } from 'date-fns';
+import { ArrowLeft, Repeat, ShieldAlert } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ComponentImage } from '@/components/ComponentImage';
+import { useBomData } from '@/hooks/useBomData';
+import { useCurrency } from '@/hooks/useCurrency';
+import { isTransferStatus } from '@/lib/dataQuality';
+import { partPath } from '@/lib/routes';
+import { cn } from '@/lib/utils';
+import { BomItem, TransferStatus } from '@/types/bom';
+
+const surface = 'bg-white/90 backdrop-blur-sm border border-slate-200 shadow-sm';
+
+const COLUMNS: { status: TransferStatus; hint: string; accent: string }[] = [
+  { status: 'Not Start', hint: 'Loops still fed from AU stock', accent: 'border-t-slate-400' },
+  { status: 'In Progress', hint: 'Cut over by the expected completion date', accent: 'border-t-indigo-500' },
+  { status: 'Finished', hint: 'Loops replenished by the supplier', accent: 'border-t-emerald-500' },
+  { status: 'Not to Transfer', hint: 'Loops staying in AU', accent: 'border-t-amber-500' },
+];
+
+// Parts whose stored status is none of the above get their own column rather than vanishing
+const UNKNOWN_STATUS_CHECK = '/data-quality?check=status';
+
+const parseDate = (value?: string) => {
+  if (!value) return null;
+  const parsed = parseISO(value);
+  return isValid(parsed) ? parsed : null;
+};
+
+// What the loop needs before or at cut-over, shown under each card
+const cutOverNote = (item: BomItem, now: Date): { text: string; warning: boolean } | null => {
+  switch (item.Transfer_Status || 'Not Start') {
+    case 'In Progress': {
+      const expected = parseDate(item.Expected_Completion);
+      if (!expected) return { text: 'No cut-over date set', warning: true };
+      return {
+        text: `Cut over ${format(expected, 'MMM yyyy')}`,
+        warning: isBefore(startOfMonth(expected), now),
+      };
+    }
+    case 'Finished': {
+      const finished = parseDate(item.Status_UpdatedAt);
+      return finished ? { text: `Cut over ${format(finished, 'd MMM yyyy')}`, warning: false } : null;
+    }
+    case 'Not to Transfer':
+      return item.NotToTransferReason ? { text: item.NotToTransferReason, warning: false } : null;
+    default: {
+      const planned = parseDate(item.Planned_Start);
+      return planned ? { text: `Planned start ${format(planned, 'MMM yyyy')}`, warning: false } : null;
+    }
+  }
+};
+
+const KanbanPartCard = ({ item, note }: { item: BomItem; note: { text: string; warning: boolean } | null }) => {
+  const { formatCurrency } = useCurrency();
+
+  return (
+    <div className="flex gap-3 rounded-lg border border-slate-200 bg-white p-3">
+      <ComponentImage componentMaterial={item.Component_Material} className="h-10 w-10 shrink-0" />
+      <div className="min-w-0 flex-1 space-y-0.5">
+        <Link
+          to={partPath(item.Component_Material)}
+          className="font-semibold text-slate-900 hover:text-indigo-600 hover:underline"
+        >
+          {item.Component_Material}
+        </Link>
+        <p className="truncate text-xs text-slate-500">{item.Description_EN}</p>
+        <p className="text-xs text-slate-600">
+          Qty {item.Total_Qty.toLocaleString('en-US')} · {formatCurrency(item.Value)}
+        </p>
+        {note && <p className={cn('text-xs', note.warning ? 'text-amber-600' : 'text-slate-500')}>{note.text}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default function KanbanPage() {
+  const { bomItems, loading, error } = useBomData();
+  const { formatCurrency } = useCurrency();
+  const now = new Date();
+
+  const { columns, unknownItems } = useMemo(() => {
+    const kanbanItems = bomItems.filter((item) => item.Is_Kanban).sort((a, b) => b.Value - a.Value);
+    return {
+      columns: COLUMNS.map((column) => {
+        const items = kanbanItems.filter((item) => (item.Transfer_Status || 'Not Start') === column.status);
+        return { ...column, items, value: items.reduce((sum, item) => sum + (item.Value || 0), 0) };
+      }),
+      unknownItems: kanbanItems.filter((item) => !isTransferStatus(item.Transfer_Status || 'Not Start')),
+    };
+  }, [bomItems]);
+
+  const kanbanParts = columns.reduce((sum, column) => sum + column.items.length, 0) + unknownItems.length;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="flex w-full flex-col gap-6 px-4 py-8 sm:px-8 lg:px-12 lg:py-12">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="flex items-center gap-2 text-3xl font-bold text-slate-900">
+              <Repeat className="h-7 w-7 text-indigo-600" />
+              Kanban
+            </h1>
+            <p className="text-sm text-slate-600">
+              {loading ? 'Loading Kanban parts…' : `${kanbanParts} Kanban parts by transfer status`}; replenishment
+              loops need their cut-over planned before the supplier takes them on
+            </p>
+          </div>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              Back to dashboard
+            </Link>
+          </Button>
+        </div>
+
+        {error && (
+          <Alert>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className={cn('grid gap-4 md:grid-cols-2', unknownItems.length ? 'xl:grid-cols-5' : 'xl:grid-cols-4')}>
+          {columns.map((column) => (
+            <Card key={column.status} className={cn(surface, 'border-t-4', column.accent)}>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center justify-between text-base">
+                  {column.status}
+                  <Badge variant="secondary">{column.items.length}</Badge>
+                </CardTitle>
+                <CardDescription>
+                  {formatCurrency(column.value)} · {column.hint}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {loading ? (
+                  <div className="space-y-2 p-4">
+                    <Skeleton className="h-14 w-full" />
+                    <Skeleton className="h-14 w-full" />
+                  </div>
+                ) : !column.items.length ? (
+                  <p className="px-4 pb-4 text-sm text-slate-500">No Kanban parts.</p>
+                ) : (
+                  <ScrollArea className="h-[560px]">
+                    <div className="space-y-2 px-4 pb-4">
+                      {column.items.map((item) => (
+                        <KanbanPartCard key={item.Component_Material} item={item} note={cutOverNote(item, now)} />
+                      ))}
+                    </div>
+                  </ScrollArea>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+          {!loading && unknownItems.length > 0 && (
+            <Card className={cn(surface, 'border-t-4 border-t-red-500')}>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center justify-between text-base">
+                  Unknown status
+                  <Badge variant="destructive">{unknownItems.length}</Badge>
+                </CardTitle>
+                <CardDescription>
+                  {formatCurrency(unknownItems.reduce((sum, item) => sum + (item.Value || 0), 0))} ·{' '}
+                  <Link to={UNKNOWN_STATUS_CHECK} className="inline-flex items-center gap-1 text-red-600 hover:underline">
+                    <ShieldAlert className="h-3.5 w-3.5" />
+                    Fix in data quality
+                  </Link>
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <ScrollArea className="h-[560px]">
+                  <div className="space-y-2 px-4 pb-4">
+                    {unknownItems.map((item) => (
+                      <KanbanPartCard
+                        key={item.Component_Material}
+                        item={item}
+                        note={{ text: `Status "${item.Transfer_Status}"`, warning: true }}
+                      />
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useEffect, useMemo } from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { format, isValid, parseISO } from 'date-fns';
+import { ArrowLeft, ArrowRight } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from '@/components/ui/sonner';
+import { AttachmentPanel } from '@/components/AttachmentPanel';
+import { CommentThread } from '@/components/CommentThread';
+import { ComponentImage } from '@/components/ComponentImage';
+import { PartEditForm } from '@/components/PartEditForm';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrency } from '@/hooks/useCurrency';
+import { BulkPatch, useBomData } from '@/hooks/useBomData';
+import { useStatusHistory } from '@/hooks/useStatusHistory';
+import { useSuppliers } from '@/hooks/useSuppliers';
+import { formatMoney } from '@/lib/currency';
+import { TAB_FOR_STATUS, tabPath } from '@/lib/routes';
+import { getPartSavings } from '@/lib/savings';
+import { cn } from '@/lib/utils';
+import { BomItem } from '@/types/bom';
+
+const surface = 'bg-white/90 backdrop-blur-sm border border-slate-200 shadow-sm';
+
+const formatDate = (value: string | undefined, pattern: string) => {
+  if (!value) return '—';
+  const parsed = parseISO(value);
+  return isValid(parsed) ? format(parsed, pattern) : value;
+};
+
+// Master data comes from the SAP extract and is changed through imports only
+const masterDataRows = (item: BomItem): { label: string; value: string }[] => [
+  { label: 'Description (EN)', value: item.Description_EN || '—' },
+  {
+    label: 'Kanban flag',
+    value: item.Kanban_Flag ? `${item.Kanban_Flag} (${item.Is_Kanban ? 'Kanban' : 'not Kanban'})` : 'Not Kanban',
+  },
+  { label: 'Latest component date', value: formatDate(item.Latest_Component_Date, 'd MMM yyyy') },
+  { label: 'Status updated', value: formatDate(item.Status_UpdatedAt, 'd MMM yyyy, HH:mm') },
+  { label: 'Last edited', value: formatDate(item.Updated_At, 'd MMM yyyy, HH:mm') },
+];
+
+export default function PartDetailPage() {
+  const { material = '' } = useParams<{ material: string }>();
+  const { bomItems, loading, error, bulkUpdate } = useBomData();
+  const { can } = useAuth();
+  const { entries, loading: historyLoading } = useStatusHistory(material || null);
+  const { suppliers } = useSuppliers();
+  const { formatCurrency, toAud } = useCurrency();
+  const { hash } = useLocation();
+  const item = bomItems.find((candidate) => candidate.Component_Material === material) ?? null;
+  const status = item?.Transfer_Status || 'Not Start';
+  const hasItem = !!item;
+
+  // Links from the data quality page point at the card holding the field to fix
+  useEffect(() => {
+    if (hasItem && hash) document.getElementById(hash.slice(1))?.scrollIntoView({ behavior: 'smooth' });
+  }, [hasItem, hash]);
+
+  const savings = item ? getPartSavings(item, toAud) : null;
+
+  const valueShare = useMemo(() => {
+    if (!item) return null;
+    const totalValue = bomItems.reduce((sum, candidate) => sum + (candidate.Value || 0), 0);
+    const rank = bomItems.filter((candidate) => (candidate.Value || 0) > (item.Value || 0)).length + 1;
+    return { share: totalValue > 0 ? item.Value / totalValue : 0, rank, count: bomItems.length };
+  }, [bomItems, item]);
+
+  const handleSave = async (patch: BulkPatch) => {
+    const result = await bulkUpdate([material], patch);
+    if (result.skipped.length) {
+      toast.error(patch.status ? 'Status change blocked' : 'Change blocked', {
+        description: result.skipped[0].reasons.join(' '),
+      });
+      return false;
+    }
+    if (!result.success) {
+      toast.error('Save failed', { description: result.reasons.join(' ') });
+      return false;
+    }
+    return true;
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="flex w-full flex-col gap-6 px-4 py-8 sm:px-8 lg:px-12 lg:py-12">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-slate-500">Part</p>
+            <h1 className="text-3xl font-bold text-slate-900">{material}</h1>
+            {item && <p className="text-sm text-slate-600">{item.Description_EN}</p>}
+          </div>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to={tabPath(TAB_FOR_STATUS[status] ?? 'current')}>
+              <ArrowLeft className="h-4 w-4" />
+              Back to dashboard
+            </Link>
+          </Button>
+        </div>
+
+        {error && (
+          <Alert>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <Skeleton className="h-80 w-full" />
+        ) : !item ? (
+          <Alert>
+            <AlertDescription>No part with material {material} exists in the BoM summary.</AlertDescription>
+          </Alert>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[minmax(0,360px)_1fr]">
+            <div className="space-y-6">
+              <Card className={surface}>
+                <CardContent className="p-4">
+                  <ComponentImage
+                    componentMaterial={item.Component_Material}
+                    className="aspect-square w-full"
+                    imageClassName="object-contain"
+                    editable
+                  />
+                  {can('attachFiles') && (
+                    <p className="mt-2 text-center text-xs text-slate-500">
+                      Drop, paste or click to replace the image
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className={surface}>
+                <CardHeader>
+                  <CardTitle>Value</CardTitle>
+                  <CardDescription>Standard price × total quantity</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-500">Standard price</span>
+                    <span className="font-medium text-slate-900">{formatCurrency(item.Standard_Price, { fractionDigits: 2 })}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-slate-500">Total quantity</span>
+                    <span className="font-medium text-slate-900">× {item.Total_Qty.toLocaleString('en-US')}</span>
+                  </div>
+                  <Separator />
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-slate-700">Value</span>
+                    <span className="text-lg font-semibold text-emerald-600">{formatCurrency(item.Value, { fractionDigits: 2 })}</span>
+                  </div>
+                  {savings && (
+                    <>
+                      <Separator />
+                      <div className="flex items-center justify-between">
+                        <span className="text-slate-500">
+                          Quote ({formatMoney(item.Quote_Price, item.Quote_Currency || 'CNY', { fractionDigits: 2 })})
+                        </span>
+                        <span className="font-medium text-slate-900">{formatCurrency(savings.quoteUnitAud, { fractionDigits: 2 })}</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-slate-500">Saving per unit</span>
+                        <span className="font-medium text-slate-900">{formatCurrency(savings.unitSaving, { fractionDigits: 2 })}</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="font-semibold text-slate-700">Total saving</span>
+                        <span
+                          className={`text-lg font-semibold ${savings.saving >= 0 ? 'text-emerald-600' : 'text-red-600'}`}
+                        >
+                          {formatCurrency(savings.saving, { fractionDigits: 2 })} ({(savings.savingRatio * 100).toFixed(1)}%)
+                        </span>
+                      </div>
+                    </>
+                  )}
+                  {valueShare && (
+                    <p className="text-xs text-slate-500">
+                      {(valueShare.share * 100).toFixed(1)}% of the total BoM value · #{valueShare.rank} of{' '}
+                      {valueShare.count} parts by value
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-6">
+              <Card id="transfer" className={cn(surface, 'scroll-mt-6')}>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <div>
+                    <CardTitle>Transfer</CardTitle>
+                    <CardDescription>
+                      {can('editTransfer') ? 'Edit any field and save once' : 'Sign in as an editor to make changes'}
+                    </CardDescription>
+                  </div>
+                  <Badge className="bg-indigo-50 text-indigo-700">{status}</Badge>
+                </CardHeader>
+                <CardContent>
+                  <PartEditForm
+                    item={item}
+                    readOnly={!can('editTransfer')}
+                    canRevertFinished={can('revertFinished')}
+                    suppliers={suppliers}
+                    onSave={handleSave}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card className={surface}>
+                <CardHeader>
+                  <CardTitle>Attachments</CardTitle>
+                  <CardDescription>Drawings, supplier quotes, inspection reports and certificates</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AttachmentPanel componentMaterial={item.Component_Material} />
+                </CardContent>
+              </Card>
+
+              <Card className={surface}>
+                <CardHeader>
+                  <CardTitle>Discussion</CardTitle>
+                  <CardDescription>Comments on this part, oldest first</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <CommentThread componentMaterial={item.Component_Material} />
+                </CardContent>
+              </Card>
+
+              <Card id="master-data" className={cn(surface, 'scroll-mt-6')}>
+                <CardHeader>
+                  <CardTitle>Master data</CardTitle>
+                  <CardDescription>From the SAP extract; refreshed through imports</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <dl className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+                    {masterDataRows(item).map((row) => (
+                      <div key={row.label} className="space-y-1">
+                        <dt className="text-xs text-slate-500">{row.label}</dt>
+                        <dd className="font-medium text-slate-900">{row.value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </CardContent>
+              </Card>
+
+              <Card className={surface}>
+                <CardHeader>
+                  <CardTitle>Recent changes</CardTitle>
+                  <CardDescription>Status history, newest first</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {historyLoading && <Skeleton className="h-14 w-full" />}
+                  {!historyLoading && entries.length === 0 && (
+                    <p className="text-sm text-slate-500">No status changes have been recorded for this part yet.</p>
+                  )}
+                  <ol className="space-y-3">
+                    {entries.slice(0, 10).map((entry) => (
+                      <li key={entry.id} className="space-y-1 border-l-2 border-indigo-200 pl-3">
+                        <div className="flex flex-wrap items-center gap-1 text-sm">
+                          <Badge variant="outline" className="text-xs">{entry.from}</Badge>
+                          <ArrowRight className="h-3 w-3 text-slate-400" />
+                          <Badge className="bg-indigo-50 text-xs text-indigo-700">{entry.to}</Badge>
+                        </div>
+                        <p className="text-xs text-slate-500">
+                          {formatDate(entry.at, 'd MMM yyyy, HH:mm')} · {entry.actor}
+                        </p>
+                        {entry.note && <p className="text-sm text-slate-700">{entry.note}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
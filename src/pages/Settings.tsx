@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Pencil, Plus, Settings as SettingsIcon, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from '@/components/ui/sonner';
+import { ExchangeRateForm } from '@/components/ExchangeRateForm';
+import { ExchangeRateFields, useExchangeRates } from '@/hooks/useCurrency';
+import { useSettings } from '@/hooks/useSettings';
+import { audPerUnit, CURRENCIES, FALLBACK_AUD_RATES, isCurrencyCode } from '@/lib/currency';
+import { currentPeriod, formatPeriodLabel, formatPeriodRange, getPeriodRange } from '@/lib/reportingPeriod';
+import { ExchangeRate } from '@/types/bom';
+
+const surface = 'bg-white/90 backdrop-blur-sm border border-slate-200 shadow-sm';
+
+const monthOptions = Array.from({ length: 12 }, (_, month) => ({
+  value: String(month),
+  label: format(new Date(2000, month, 1), 'MMMM'),
+}));
+
+export default function SettingsPage() {
+  const { settings, updateSettings } = useSettings();
+  const fiscalYear = currentPeriod('fiscal', settings.fiscalYearStartMonth);
+  const { rates, loading: ratesLoading, error: ratesError, canManage, saveRate, deleteRate } = useExchangeRates();
+  const [editing, setEditing] = useState<ExchangeRate | 'new' | null>(null);
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  // The entry each currency converts with today, so the list can mark it
+  const inEffect = new Set(
+    CURRENCIES.map((currency) =>
+      rates.find((rate) => rate.currency === currency && rate.effectiveFrom <= today)?.id
+    ).filter(Boolean)
+  );
+
+  const handleSave = async (fields: ExchangeRateFields) => {
+    const rateId = editing && editing !== 'new' ? editing.id : null;
+    if (!(await saveRate(rateId, fields))) {
+      toast.error('Exchange rate not saved', { description: 'Please try again.' });
+      return false;
+    }
+    toast.success(`${fields.currency} rate saved`);
+    setEditing(null);
+    return true;
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (await deleteRate(rate.id)) {
+      toast.success(`${rate.currency} rate from ${format(parseISO(rate.effectiveFrom), 'd MMM yyyy')} deleted`);
+    } else {
+      toast.error('Exchange rate not deleted', { description: 'Please try again.' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="flex w-full max-w-3xl flex-col gap-6 px-4 py-8 sm:px-8 lg:px-12 lg:py-12">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="flex items-center gap-2 text-3xl font-bold text-slate-900">
+              <SettingsIcon className="h-7 w-7 text-indigo-600" />
+              Settings
+            </h1>
+            <p className="text-sm text-slate-600">Preferences are saved in this browser</p>
+          </div>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              Back to dashboard
+            </Link>
+          </Button>
+        </div>
+
+        <Card className={surface}>
+          <CardHeader>
+            <CardTitle>Reporting</CardTitle>
+            <CardDescription>Used by the fiscal year and quarter periods on the Completed tab</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label className="text-xs text-slate-500">Fiscal year starts in</Label>
+            <Select
+              value={String(settings.fiscalYearStartMonth)}
+              onValueChange={(value) => updateSettings({ fiscalYearStartMonth: Number(value) })}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {monthOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-slate-500">
+              Current fiscal year: {formatPeriodLabel(fiscalYear)} (
+              {formatPeriodRange(getPeriodRange(fiscalYear, settings.fiscalYearStartMonth))})
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className={surface}>
+          <CardHeader>
+            <CardTitle>Currency</CardTitle>
+            <CardDescription>Cards, charts, lists and Excel exports show amounts in this currency</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label className="text-xs text-slate-500">Display currency</Label>
+            <Select
+              value={settings.displayCurrency}
+              onValueChange={(value) => isCurrencyCode(value) && updateSettings({ displayCurrency: value })}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map((currency) => (
+                  <SelectItem key={currency} value={currency}>
+                    {currency}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-slate-500">
+              Prices are stored in AUD and converted at today's rate
+              {settings.displayCurrency !== 'AUD' &&
+                ` (1 ${settings.displayCurrency} = A$${audPerUnit(rates, settings.displayCurrency, today)})`}
+              .
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className={surface}>
+          <CardHeader className="flex flex-row items-start justify-between gap-3 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Exchange rates</CardTitle>
+              <CardDescription>
+                AUD per unit, shared by everyone. Each rate applies from its date until the next one for the same
+                currency.
+              </CardDescription>
+            </div>
+            {canManage && (
+              <Button size="sm" className="gap-2" onClick={() => setEditing('new')}>
+                <Plus className="h-4 w-4" />
+                Add rate
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {ratesError && (
+              <Alert>
+                <AlertDescription>{ratesError}</AlertDescription>
+              </Alert>
+            )}
+            {ratesLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : !rates.length ? (
+              <p className="text-sm text-slate-500">No rates entered yet.</p>
+            ) : (
+              <div className="divide-y divide-slate-200">
+                {rates.map((rate) => (
+                  <div key={rate.id} className="flex items-center gap-3 py-2 text-sm">
+                    <span className="w-12 font-semibold text-slate-900">{rate.currency}</span>
+                    <span className="flex-1 text-slate-700">
+                      A${rate.audPerUnit} from {format(parseISO(rate.effectiveFrom), 'd MMM yyyy')}
+                    </span>
+                    {inEffect.has(rate.id) && <Badge className="bg-emerald-50 text-emerald-700">In effect</Badge>}
+                    {rate.effectiveFrom > today && <Badge variant="outline">Scheduled</Badge>}
+                    {canManage && (
+                      <div className="flex gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          title="Edit rate"
+                          onClick={() => setEditing(rate)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          title="Delete rate"
+                          onClick={() => handleDelete(rate)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-slate-500">
+              Until a currency has a rate in effect, {CURRENCIES.filter((currency) => currency !== 'AUD')
+                .map((currency) => `1 ${currency} = A$${FALLBACK_AUD_RATES[currency]}`)
+                .join(' and ')}{' '}
+              is used.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add exchange rate' : 'Edit exchange rate'}</DialogTitle>
+            <DialogDescription>Amounts dated on or after the effective date convert with this rate.</DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <ExchangeRateForm
+              key={editing === 'new' ? 'new' : editing.id}
+              initial={editing === 'new' ? undefined : editing}
+              onSubmit={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
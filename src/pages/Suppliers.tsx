@@ -0,0 +1,288 @@
+import { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Factory, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { toast } from '@/components/ui/sonner';
+import { ComponentImage } from '@/components/ComponentImage';
+import { SupplierForm } from '@/components/SupplierForm';
+import { useBomData } from '@/hooks/useBomData';
+import { useCurrency } from '@/hooks/useCurrency';
+import { SupplierFields, useSuppliers } from '@/hooks/useSuppliers';
+import { partPath } from '@/lib/routes';
+import { groupBySupplier, SupplierGroup } from '@/lib/suppliers';
+import { cn } from '@/lib/utils';
+import { Supplier } from '@/types/bom';
+
+const surface = 'bg-white/90 backdrop-blur-sm border border-slate-200 shadow-sm';
+
+// `?supplier=` selects a group; this key stands for the parts without a supplier
+const UNASSIGNED = 'unassigned';
+
+const groupKey = (group: SupplierGroup) => group.supplier?.id ?? UNASSIGNED;
+
+export default function SuppliersPage() {
+  const { bomItems, loading: bomLoading, error: bomError } = useBomData();
+  const { suppliers, loading, error, canManage, saveSupplier, deleteSupplier } = useSuppliers();
+  const { formatCurrency: formatAmount } = useCurrency();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [editing, setEditing] = useState<Supplier | 'new' | null>(null);
+  const [deleting, setDeleting] = useState<SupplierGroup | null>(null);
+
+  const formatCurrency = (value: number) => formatAmount(value, { compact: value >= 1_000_000 });
+
+  const groups = useMemo(() => groupBySupplier(bomItems, suppliers), [bomItems, suppliers]);
+  const totalValue = groups.reduce((sum, group) => sum + group.totalValue, 0);
+  const selectedKey = searchParams.get('supplier');
+  const selectedGroup = groups.find((group) => groupKey(group) === selectedKey) ?? null;
+
+  const selectGroup = (key: string | null) =>
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        if (key) next.set('supplier', key);
+        else next.delete('supplier');
+        return next;
+      },
+      { replace: true }
+    );
+
+  const handleSave = async (fields: SupplierFields) => {
+    const supplierId = editing && editing !== 'new' ? editing.id : null;
+    const savedId = await saveSupplier(supplierId, fields);
+    if (!savedId) {
+      toast.error('Supplier not saved', { description: 'Please try again.' });
+      return false;
+    }
+    toast.success(`${fields.name.trim()} saved`);
+    setEditing(null);
+    return true;
+  };
+
+  const handleDelete = async () => {
+    if (!deleting?.supplier) return;
+    const { supplier, items } = deleting;
+    setDeleting(null);
+    if (await deleteSupplier(supplier.id, items.map((item) => item.Component_Material))) {
+      toast.success(`${supplier.name} deleted`);
+      if (selectedKey === supplier.id) selectGroup(null);
+    } else {
+      toast.error('Supplier not deleted', { description: 'Please try again.' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="flex w-full flex-col gap-6 px-4 py-8 sm:px-8 lg:px-12 lg:py-12">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="flex items-center gap-2 text-3xl font-bold text-slate-900">
+              <Factory className="h-7 w-7 text-indigo-600" />
+              Suppliers
+            </h1>
+            <p className="text-sm text-slate-600">Transfer value carried by each supplier across In Progress and Finished parts</p>
+          </div>
+          <div className="flex gap-2">
+            {canManage && (
+              <Button className="gap-2" onClick={() => setEditing('new')}>
+                <Plus className="h-4 w-4" />
+                Add supplier
+              </Button>
+            )}
+            <Button asChild variant="outline" className="gap-2">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4" />
+                Back to dashboard
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        {(error || bomError) && (
+          <Alert>
+            <AlertDescription>{error || bomError}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className={surface}>
+          <CardHeader>
+            <CardTitle>By supplier</CardTitle>
+            <CardDescription>Select a supplier to list its parts</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading || bomLoading ? (
+              <Skeleton className="h-40 w-full" />
+            ) : !groups.length ? (
+              <p className="text-sm text-slate-500">No suppliers yet, and no parts are In Progress or Finished.</p>
+            ) : (
+              <div className="divide-y divide-slate-200">
+                {groups.map((group) => {
+                  const key = groupKey(group);
+                  const share = totalValue > 0 ? group.totalValue / totalValue : 0;
+                  return (
+                    <div
+                      key={key}
+                      role="button"
+                      tabIndex={0}
+                      onClick={() => selectGroup(selectedKey === key ? null : key)}
+                      onKeyDown={(event) => event.key === 'Enter' && selectGroup(selectedKey === key ? null : key)}
+                      className={cn(
+                        'grid cursor-pointer gap-3 rounded-lg p-3 transition md:grid-cols-[minmax(0,1.4fr)_minmax(0,2fr)_auto] md:items-center',
+                        selectedKey === key ? 'bg-indigo-50' : 'hover:bg-slate-50'
+                      )}
+                    >
+                      <div>
+                        <p className="font-semibold text-slate-900">{group.supplier?.name ?? 'No supplier assigned'}</p>
+                        {group.supplier && (
+                          <p className="text-xs text-slate-500">
+                            {[group.supplier.location, group.supplier.contact].filter(Boolean).join(' · ') || '—'} ·{' '}
+                            {group.supplier.currency} · {group.supplier.leadTimeDays} days lead time
+                          </p>
+                        )}
+                      </div>
+                      <div className="space-y-1">
+                        <div className="flex justify-between text-xs text-slate-500">
+                          <span>
+                            {group.items.length} parts · {formatCurrency(group.inProgressValue)} in progress ·{' '}
+                            {formatCurrency(group.finishedValue)} finished
+                          </span>
+                          <span className="font-semibold text-slate-900">{formatCurrency(group.totalValue)}</span>
+                        </div>
+                        <div className="h-2 overflow-hidden rounded-full bg-slate-100">
+                          <div
+                            className={cn('h-full rounded-full', group.supplier ? 'bg-indigo-500' : 'bg-slate-400')}
+                            style={{ width: `${share * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                      {canManage && group.supplier ? (
+                        <div className="flex justify-end gap-1" onClick={(event) => event.stopPropagation()}>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            title="Edit supplier"
+                            onClick={() => setEditing(group.supplier)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            title="Delete supplier"
+                            onClick={() => setDeleting(group)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <span />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedGroup && (
+          <Card className={surface}>
+            <CardHeader>
+              <CardTitle>{selectedGroup.supplier?.name ?? 'No supplier assigned'}</CardTitle>
+              <CardDescription>
+                {selectedGroup.items.length} parts, largest value first. Assign suppliers from the part page or the
+                dashboard's bulk actions.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!selectedGroup.items.length ? (
+                <p className="text-sm text-slate-500">No parts are assigned to this supplier yet.</p>
+              ) : (
+                <div className="divide-y divide-slate-200">
+                  {[...selectedGroup.items]
+                    .sort((a, b) => b.Value - a.Value)
+                    .map((item) => (
+                      <div key={item.Component_Material} className="flex items-center gap-3 py-2">
+                        <ComponentImage componentMaterial={item.Component_Material} className="h-10 w-10 shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <Link
+                            to={partPath(item.Component_Material)}
+                            className="font-semibold text-slate-900 hover:text-indigo-600 hover:underline"
+                          >
+                            {item.Component_Material}
+                          </Link>
+                          <p className="truncate text-xs text-slate-500">{item.Description_EN}</p>
+                        </div>
+                        <Badge
+                          className={
+                            item.Transfer_Status === 'Finished'
+                              ? 'bg-emerald-50 text-emerald-700'
+                              : 'bg-indigo-50 text-indigo-700'
+                          }
+                        >
+                          {item.Transfer_Status}
+                        </Badge>
+                        <span className="w-28 text-right text-sm font-semibold text-slate-900">
+                          {formatCurrency(item.Value)}
+                        </span>
+                      </div>
+                    ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add supplier' : 'Edit supplier'}</DialogTitle>
+            <DialogDescription>Quote currency and lead time apply to every part the supplier takes over.</DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <SupplierForm
+              key={editing === 'new' ? 'new' : editing.id}
+              initial={editing === 'new' ? undefined : editing}
+              onSubmit={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.supplier?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.items.length
+                ? `${deleting.items.length} parts assigned to this supplier will become unassigned.`
+                : 'No parts are assigned to this supplier.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO, subDays } from 'date-fns';
+import { ArrowLeft, TrendingUp } from 'lucide-react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Legend, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useBomSnapshots } from '@/hooks/useBomSnapshots';
+import { useCurrency } from '@/hooks/useCurrency';
+import { snapshotDate } from '@/lib/snapshots';
+import { SnapshotTotals } from '@/types/bom';
+
+type Metric = keyof SnapshotTotals;
+
+const metricOptions: { key: Metric; label: string }[] = [
+  { key: 'parts', label: 'Parts' },
+  { key: 'qty', label: 'Quantity' },
+  { key: 'value', label: 'Value' },
+];
+
+const rangePresets = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+];
+
+const surface = 'bg-white/90 backdrop-blur-sm border border-slate-200 shadow-sm';
+
+const formatCompactNumber = (value: number) =>
+  new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+export default function TrendsPage() {
+  const [to, setTo] = useState(() => snapshotDate());
+  const [from, setFrom] = useState(() => snapshotDate(subDays(new Date(), 90)));
+  const [metric, setMetric] = useState<Metric>('parts');
+  const { snapshots, loading, error } = useBomSnapshots(from, to);
+  const { currency, fromAud } = useCurrency();
+
+  const chartData = useMemo(
+    () =>
+      snapshots.map((snapshot) => {
+        // Snapshot values are AUD; convert at the rate in effect on the day they were taken
+        const pick = (totals: SnapshotTotals) =>
+          metric === 'value' ? fromAud(totals.value, snapshot.date) : totals[metric];
+        return {
+          day: format(parseISO(snapshot.date), 'd MMM yy'),
+          notStart: pick(snapshot.statusTotals['Not Start']),
+          inProgress: pick(snapshot.statusTotals['In Progress']),
+          finished: pick(snapshot.statusTotals.Finished),
+          notToTransfer: pick(snapshot.statusTotals['Not to Transfer']),
+          kanban: pick(snapshot.kanban),
+          nonKanban: pick(snapshot.nonKanban),
+          delayed: snapshot.delayedPlans,
+        };
+      }),
+    [snapshots, metric, fromAud]
+  );
+
+  const metricLabel =
+    metric === 'value'
+      ? `Value (${currency})`
+      : (metricOptions.find((option) => option.key === metric)?.label ?? 'Parts');
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="flex w-full flex-col gap-6 px-4 py-8 sm:px-8 lg:px-12 lg:py-12">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="flex items-center gap-2 text-3xl font-bold text-slate-900">
+              <TrendingUp className="h-7 w-7 text-indigo-600" />
+              Trends
+            </h1>
+            <p className="text-sm text-slate-600">Daily KPI snapshots, recorded the first time an editor opens the dashboard each day</p>
+          </div>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              Back to dashboard
+            </Link>
+          </Button>
+        </div>
+
+        <Card className={surface}>
+          <CardContent className="flex flex-wrap items-end gap-4 p-6">
+            <div className="space-y-1">
+              <Label className="text-xs text-slate-500">From</Label>
+              <Input type="date" value={from} max={to} onChange={(e) => e.target.value && setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-slate-500">To</Label>
+              <Input type="date" value={to} min={from} onChange={(e) => e.target.value && setTo(e.target.value)} />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {rangePresets.map((preset) => (
+                <Button
+                  key={preset.days}
+                  size="sm"
+                  variant="outline"
+                  className="h-8 text-xs"
+                  onClick={() => {
+                    setTo(snapshotDate());
+                    setFrom(snapshotDate(subDays(new Date(), preset.days)));
+                  }}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+            <div className="ml-auto flex flex-wrap items-center gap-2 text-xs text-slate-500">
+              <span className="font-semibold text-slate-700">Measure</span>
+              {metricOptions.map((option) => (
+                <Button
+                  key={option.key}
+                  size="sm"
+                  variant={metric === option.key ? 'default' : 'outline'}
+                  className="h-8 text-xs"
+                  onClick={() => setMetric(option.key)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <Skeleton className="h-80 w-full" />
+        ) : chartData.length === 0 ? (
+          <Card className={surface}>
+            <CardContent className="p-6 text-sm text-slate-500">No snapshots were recorded in this date range.</CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 xl:grid-cols-2">
+            <Card className={`${surface} xl:col-span-2`}>
+              <CardHeader>
+                <CardTitle>{metricLabel} by transfer status</CardTitle>
+                <CardDescription>One point per daily snapshot</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-80">
+                  <ChartContainer
+                    config={{
+                      notStart: { label: 'Not Start', color: 'hsl(215, 20%, 55%)' },
+                      inProgress: { label: 'In Progress', color: 'hsl(215, 85%, 55%)' },
+                      finished: { label: 'Finished', color: 'hsl(158, 70%, 45%)' },
+                      notToTransfer: { label: 'Not to Transfer', color: 'hsl(34, 94%, 50%)' },
+                    }}
+                  >
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="day" />
+                      <YAxis tickFormatter={formatCompactNumber} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Legend />
+                      <Line dataKey="notStart" name="Not Start" stroke="var(--color-notStart)" strokeWidth={2} dot={false} />
+                      <Line dataKey="inProgress" name="In Progress" stroke="var(--color-inProgress)" strokeWidth={2} dot={false} />
+                      <Line dataKey="finished" name="Finished" stroke="var(--color-finished)" strokeWidth={2} dot={false} />
+                      <Line
+                        dataKey="notToTransfer"
+                        name="Not to Transfer"
+                        stroke="var(--color-notToTransfer)"
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className={surface}>
+              <CardHeader>
+                <CardTitle>Kanban split</CardTitle>
+                <CardDescription>{metricLabel} for Kanban and non-Kanban parts</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <ChartContainer
+                    config={{
+                      kanban: { label: 'Kanban', color: 'hsl(215, 85%, 55%)' },
+                      nonKanban: { label: 'Non-Kanban', color: 'hsl(215, 20%, 70%)' },
+                    }}
+                  >
+                    <AreaChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="day" />
+                      <YAxis tickFormatter={formatCompactNumber} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Legend />
+                      <Area
+                        dataKey="kanban"
+                        name="Kanban"
+                        stackId="kanban"
+                        stroke="var(--color-kanban)"
+                        fill="var(--color-kanban)"
+                        fillOpacity={0.5}
+                      />
+                      <Area
+                        dataKey="nonKanban"
+                        name="Non-Kanban"
+                        stackId="kanban"
+                        stroke="var(--color-nonKanban)"
+                        fill="var(--color-nonKanban)"
+                        fillOpacity={0.5}
+                      />
+                    </AreaChart>
+                  </ChartContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className={surface}>
+              <CardHeader>
+                <CardTitle>Delayed plans</CardTitle>
+                <CardDescription>In Progress parts past their expected completion month</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <ChartContainer config={{ delayed: { label: 'Past due', color: 'hsl(34, 94%, 50%)' } }}>
+                    <BarChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="day" />
+                      <YAxis allowDecimals={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="delayed" name="Past due" fill="var(--color-delayed)" radius={[6, 6, 0, 0]} />
+                    </BarChart>
+                  </ChartContainer>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,46 @@
 export type TransferStatus = "Not Start" | "In Progress" | "Finished" | "Not to Transfer";
 
+export type CurrencyCode = 'AUD' | 'CNY' | 'USD';
+
+/** AUD per unit of `currency` from `effectiveFrom` until the next entry for it */
+export interface ExchangeRate {
+  id: string;
+  currency: CurrencyCode;
+  audPerUnit: number;
+  effectiveFrom: string; // yyyy-MM-dd
+}
+
 export interface BomItem {
   Component_Material: string;
   Description_EN: string;
-  Kanban_Flag: string;
+  Kanban_Flag: string; // as exported from SAP
+  Is_Kanban: boolean; // Kanban_Flag normalized once when the record is mapped
   Latest_Component_Date: string;
   Standard_Price: number;
   Total_Qty: number;
   Value: number; // Calculated field
   Transfer_Status?: TransferStatus;
   Status_UpdatedAt?: string;
-  imageUrl?: string; // Added for component images
   Expected_Completion?: string;
   NotToTransferReason?: string;
   Brand?: string;
   Planned_Start?: string;
+  Supplier_Id?: string; // supplier taking over an In Progress or Finished part
+  Quote_Price?: number; // quoted unit price in Quote_Currency
+  Quote_Currency?: CurrencyCode;
+  Revision: number; // moves on with every transfer write
+  Updated_By?: string; // uid of the last writer
+  Updated_At?: string;
+}
+
+export interface StatusHistoryEntry {
+  id: string;
+  from: TransferStatus;
+  to: TransferStatus;
+  at: string; // ISO timestamp
+  actor: string;
+  actorId?: string;
+  note?: string;
 }
 
 export interface BomSummary {
@@ -29,6 +55,63 @@ export interface BomSummary {
   };
 }
 
+export interface Supplier {
+  id: string;
+  name: string;
+  location: string;
+  contact: string;
+  currency: CurrencyCode; // currency quotes are made in
+  leadTimeDays: number;
+}
+
+export interface BomComment {
+  id: string;
+  text: string;
+  author: string;
+  authorId: string;
+  createdAt: string; // ISO timestamp
+  updatedAt?: string;
+}
+
+/** Per-part comment summary shown on list rows */
+export interface CommentMeta {
+  count: number;
+  lastCommentAt: string;
+}
+
+export type AttachmentCategory = 'drawing' | 'quote' | 'inspection' | 'certificate' | 'other';
+
+/** A file stored under the part's attachment folder */
+export interface PartAttachment {
+  id: string; // file name within the part folder
+  name: string;
+  category: AttachmentCategory;
+  contentType: string;
+  size: number; // bytes
+  uploadedBy: string;
+  uploadedById: string;
+  uploadedAt: string; // ISO timestamp
+  url: string;
+}
+
+export interface SnapshotTotals {
+  parts: number;
+  qty: number;
+  value: number;
+}
+
+/** Aggregate KPIs captured once per day for trend charts */
+export interface BomSnapshot {
+  date: string; // yyyy-MM-dd
+  capturedAt: string; // ISO timestamp
+  statusTotals: Record<TransferStatus, SnapshotTotals>;
+  /** Parts whose stored status is none of the four; absent in older snapshots */
+  unknownStatus?: SnapshotTotals;
+  kanban: SnapshotTotals;
+  nonKanban: SnapshotTotals;
+  delayedPlans: number;
+}
+
 export type SortField = "Value" | "Standard_Price" | "Total_Qty" | "Latest_Component_Date";
 export type SortDirection = "asc" | "desc";
 export type KanbanFilter = "all" | "kanban" | "non-kanban";
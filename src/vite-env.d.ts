@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Data backend: `firebase` (default), `local` (localStorage) or `memory` */
+  readonly VITE_BOM_BACKEND?: string;
+  /** `host:port` of the Firebase Auth emulator */
+  readonly VITE_FIREBASE_AUTH_EMULATOR_HOST?: string;
+  /** `host:port` of the Realtime Database emulator */
+  readonly VITE_FIREBASE_DATABASE_EMULATOR_HOST?: string;
+  /** `host:port` of the Storage emulator */
+  readonly VITE_FIREBASE_STORAGE_EMULATOR_HOST?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}